@@ -149,7 +149,7 @@ function deleteDb() {
 async function txWithStore(storeName, mode, callback) {
   const db = await getDB();
   return new Promise((resolve, reject) => {
-    const transactionRequest = db.transaction([storeName, IDBSideSync.OPLOG_STORE], mode);
+    const transactionRequest = db.transaction([storeName, IDBSideSync.OPLOG_STORE, IDBSideSync.META_STORE], mode);
     transactionRequest.oncomplete = () => resolve();
     transactionRequest.onerror = () => reject(transactionRequest.error);
 
@@ -164,7 +164,7 @@ async function txWithStore(storeName, mode, callback) {
 async function txWithStores(storeNames, mode, callback) {
   const db = await getDB();
   return new Promise((resolve, reject) => {
-    const transactionRequest = db.transaction([...storeNames, IDBSideSync.OPLOG_STORE], mode);
+    const transactionRequest = db.transaction([...storeNames, IDBSideSync.OPLOG_STORE, IDBSideSync.META_STORE], mode);
     transactionRequest.oncomplete = () => resolve();
     transactionRequest.onerror = () => reject(transactionRequest.error);
 
@@ -1,5 +1,5 @@
 import * as IDBSideSync from '../../src/index';
-import { PutWithoutKeyError } from '../../src/index';
+import { CursorKeyMismatchError, PutWithoutKeyError } from '../../src/index';
 import {
   deleteDb,
   getDb,
@@ -7,6 +7,8 @@ import {
   SCOPED_SETTINGS_STORE,
   throwOnReqError,
   GLOBAL_SETTINGS_STORE,
+  TODO_ITEMS_BY_NAME_INDEX,
+  NOTES_STORE,
   assertEntries,
   transaction,
 } from './utils';
@@ -382,4 +384,499 @@ context('IDBObjectStoreProxy', () => {
       expect(oplogItems).to.have.length(0);
     });
   });
+
+  describe('nested keyPath support', () => {
+    it(`works with a nested (dot-notation) keyPath`, async () => {
+      const note: Note = { meta: { id: 'note1', author: 'gary' }, text: 'meow' };
+      let foundNote;
+      let foundEntries;
+
+      await transaction([NOTES_STORE], (proxiedStore) => {
+        throwOnReqError(proxiedStore.put(note));
+      });
+
+      await transaction([NOTES_STORE], async (proxiedStore, oplogStore) => {
+        foundNote = await IDBSideSync.utils.request(proxiedStore.get(note.meta.id));
+        foundEntries = await IDBSideSync.utils.request(oplogStore.getAll());
+      });
+
+      expect(foundNote).to.deep.equal(note);
+      assertEntries(foundEntries, { hasCount: 2, where: { store: NOTES_STORE, objectKey: note.meta.id } });
+      assertEntries(foundEntries, { hasCount: 1, where: { prop: 'meta', value: note.meta } });
+      assertEntries(foundEntries, { hasCount: 1, where: { prop: 'text', value: note.text } });
+    });
+
+    it(`uses "key" arg to set nested key prop, and doesn't lose the key when merging`, async () => {
+      const key = 'note1';
+      let foundNote;
+
+      await transaction([NOTES_STORE], (proxiedStore) => {
+        throwOnReqError(proxiedStore.put({ text: 'meow' }, key));
+      });
+
+      // Note that the `meta` object lacks the `id` prop; the existing object's `meta.id` must not be lost.
+      await transaction([NOTES_STORE], (proxiedStore) => {
+        throwOnReqError(proxiedStore.put({ meta: { author: 'gary' } }, key));
+      });
+
+      await transaction([NOTES_STORE], async (proxiedStore) => {
+        foundNote = await IDBSideSync.utils.request(proxiedStore.get(key));
+      });
+
+      expect(foundNote).to.deep.equal({ meta: { id: key, author: 'gary' }, text: 'meow' });
+    });
+  });
+
+  describe('flattenNestedObjects option', () => {
+    it(`records an oplog entry for each nested leaf value and merges nested objects`, async () => {
+      const key = 'prefs';
+      const flatten = { flattenNestedObjects: true };
+      let foundValue;
+      let foundEntries;
+
+      await transaction(
+        [GLOBAL_SETTINGS_STORE],
+        (proxiedStore) => {
+          throwOnReqError(proxiedStore.put({ theme: { color: 'red', font: 'Arial' }, tags: ['a'] }, key));
+        },
+        flatten
+      );
+
+      await transaction(
+        [GLOBAL_SETTINGS_STORE],
+        (proxiedStore) => {
+          throwOnReqError(proxiedStore.put({ theme: { color: 'blue' } }, key));
+        },
+        flatten
+      );
+
+      await transaction([GLOBAL_SETTINGS_STORE], async (proxiedStore, oplogStore) => {
+        foundValue = await IDBSideSync.utils.request(proxiedStore.get(key));
+        foundEntries = await IDBSideSync.utils.request(oplogStore.getAll());
+      });
+
+      // Note that `theme.font` wasn't lost when `theme` was put() the second time.
+      expect(foundValue).to.deep.equal({ theme: { color: 'blue', font: 'Arial' }, tags: ['a'] });
+      assertEntries(foundEntries, { hasCount: 5, where: { store: GLOBAL_SETTINGS_STORE, objectKey: key } });
+      assertEntries(foundEntries, { hasCount: 1, where: { prop: ['theme', 'color'], value: 'red' } });
+      assertEntries(foundEntries, { hasCount: 1, where: { prop: ['theme', 'color'], value: 'blue' } });
+      assertEntries(foundEntries, { hasCount: 1, where: { prop: ['theme', 'font'], value: 'Arial' } });
+      assertEntries(foundEntries, { hasCount: 1, where: { prop: 'tags', value: ['a'] } });
+      assertEntries(foundEntries, { hasCount: 0, where: { prop: 'theme' } });
+    });
+  });
+
+  describe('store.delete() proxy', () => {
+    it(`deletes object and records a tombstone oplog entry`, async () => {
+      const key = 1;
+      let foundTodo;
+      let foundEntries;
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.add({ ...defaultTodoItem, id: key });
+      });
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        throwOnReqError(proxiedStore.delete(key));
+      });
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore, oplogStore) => {
+        foundTodo = await IDBSideSync.utils.request(proxiedStore.get(key));
+        foundEntries = await IDBSideSync.utils.request(oplogStore.getAll());
+      });
+
+      expect(foundTodo).to.be.undefined;
+      assertEntries(foundEntries, {
+        hasCount: 1,
+        where: { store: TODO_ITEMS_STORE, objectKey: key, prop: '', value: null, operation: 'delete' },
+      });
+    });
+
+    it(`records a tombstone for each existing object when called with a key range`, async () => {
+      let foundTodos;
+      let foundEntries;
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        for (let id = 1; id <= 5; id++) {
+          proxiedStore.add({ ...defaultTodoItem, id });
+        }
+      });
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        throwOnReqError(proxiedStore.delete(IDBKeyRange.bound(2, 4)));
+      });
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore, oplogStore) => {
+        foundTodos = await IDBSideSync.utils.request(proxiedStore.getAll());
+        foundEntries = await IDBSideSync.utils.request(oplogStore.getAll());
+      });
+
+      expect(foundTodos.map((todo: TodoItem) => todo.id)).to.deep.equal([1, 5]);
+      for (const id of [2, 3, 4]) {
+        assertEntries(foundEntries, { hasCount: 1, where: { objectKey: id, operation: 'delete' } });
+      }
+      for (const id of [1, 5]) {
+        assertEntries(foundEntries, { hasCount: 0, where: { objectKey: id, operation: 'delete' } });
+      }
+    });
+
+    it(`works without a keyPath`, async () => {
+      const key = 'foo';
+      let foundValue;
+      let foundEntries;
+
+      await transaction([GLOBAL_SETTINGS_STORE], (proxiedStore) => {
+        proxiedStore.put('bar', key);
+      });
+
+      await transaction([GLOBAL_SETTINGS_STORE], (proxiedStore) => {
+        proxiedStore.delete(key);
+      });
+
+      await transaction([GLOBAL_SETTINGS_STORE], async (store, oplogStore) => {
+        foundValue = await IDBSideSync.utils.request(store.get(key));
+        foundEntries = await IDBSideSync.utils.request(oplogStore.getAll());
+      });
+
+      expect(foundValue).to.be.undefined;
+      const sharedWhere = { store: GLOBAL_SETTINGS_STORE, objectKey: key, prop: '' };
+      assertEntries(foundEntries, { hasCount: 1, where: { ...sharedWhere, value: 'bar' } });
+      assertEntries(foundEntries, { hasCount: 1, where: { ...sharedWhere, operation: 'delete' } });
+    });
+  });
+
+  describe('store.clear() proxy', () => {
+    it(`deletes all objects and records a single "clear" oplog entry`, async () => {
+      let foundTodos;
+      let foundEntries;
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.add({ ...defaultTodoItem, id: 1 });
+        proxiedStore.add({ ...defaultTodoItem, id: 2 });
+      });
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        throwOnReqError(proxiedStore.clear());
+      });
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore, oplogStore) => {
+        foundTodos = await IDBSideSync.utils.request(proxiedStore.getAll());
+        foundEntries = await IDBSideSync.utils.request(oplogStore.getAll());
+      });
+
+      expect(foundTodos).to.have.length(0);
+      assertEntries(foundEntries, { hasCount: 1, where: { operation: 'clear' } });
+      assertEntries(foundEntries, {
+        hasCount: 1,
+        where: { store: TODO_ITEMS_STORE, objectKey: IDBSideSync.STORE_CLEAR_OBJECT_KEY, prop: '', value: null },
+      });
+    });
+  });
+
+  describe('store.increment() / store.decrement()', () => {
+    it(`updates counter props and records an "increment" oplog entry for each call`, async () => {
+      let foundTodo;
+      let foundEntries;
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put(defaultTodoItem);
+        const store = proxiedStore as IDBSideSync.ProxiedObjectStore;
+        store.increment(defaultTodoItem.id, 'quantity', 5);
+        store.decrement(defaultTodoItem.id, 'quantity');
+        store.increment(defaultTodoItem.id, ['stats', 'views']);
+      });
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore, oplogStore) => {
+        foundTodo = await IDBSideSync.utils.request(proxiedStore.get(defaultTodoItem.id));
+        foundEntries = await IDBSideSync.utils.request(oplogStore.getAll());
+      });
+
+      expect(foundTodo).to.deep.equal({ ...defaultTodoItem, quantity: 4, stats: { views: 1 } });
+      const sharedWhere = { store: TODO_ITEMS_STORE, objectKey: defaultTodoItem.id, operation: 'increment' };
+      assertEntries(foundEntries, { hasCount: 1, where: { ...sharedWhere, prop: 'quantity', value: 5 } });
+      assertEntries(foundEntries, { hasCount: 1, where: { ...sharedWhere, prop: 'quantity', value: -1 } });
+      assertEntries(foundEntries, { hasCount: 1, where: { ...sharedWhere, prop: ['stats', 'views'], value: 1 } });
+    });
+
+    it(`throws, rolls back transaction if the amount isn't a number`, async () => {
+      let caughtIncrementError;
+      let caughtTransactionError;
+
+      try {
+        await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+          proxiedStore.add(defaultTodoItem);
+
+          try {
+            //@ts-ignore
+            (proxiedStore as IDBSideSync.ProxiedObjectStore).increment(defaultTodoItem.id, 'quantity', '5');
+          } catch (error) {
+            caughtIncrementError = error;
+          }
+        });
+      } catch (error) {
+        caughtTransactionError = error;
+      }
+
+      expect(caughtIncrementError).to.be.instanceOf(TypeError);
+      expect(caughtTransactionError.message).to.match(CROSS_BROWSER_TX_ABORTED_MSG_SNIPPET);
+
+      let foundTodos;
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        foundTodos = await IDBSideSync.utils.request(proxiedStore.getAll());
+      });
+      expect(foundTodos).to.have.length(0);
+    });
+  });
+
+  describe('store.addElement() / store.removeElement()', () => {
+    it(`updates set props and records "addElement"/"removeElement" oplog entries for each call`, async () => {
+      let foundTodo;
+      let foundEntries: OpLogEntry[] = [];
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ ...defaultTodoItem, tags: ['home'] });
+        const store = proxiedStore as IDBSideSync.ProxiedObjectStore;
+        store.addElement(defaultTodoItem.id, 'tags', 'urgent');
+        store.addElement(defaultTodoItem.id, 'tags', 'urgent');
+        store.addElement(defaultTodoItem.id, 'tags', 'errand');
+        store.removeElement(defaultTodoItem.id, 'tags', 'home');
+        store.removeElement(defaultTodoItem.id, 'tags', 'urgent');
+      });
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore, oplogStore) => {
+        foundTodo = await IDBSideSync.utils.request(proxiedStore.get(defaultTodoItem.id));
+        foundEntries = (await IDBSideSync.utils.request(oplogStore.getAll())) as OpLogEntry[];
+      });
+
+      expect(foundTodo).to.deep.equal({ ...defaultTodoItem, tags: ['errand'] });
+
+      const sharedWhere = { store: TODO_ITEMS_STORE, objectKey: defaultTodoItem.id, prop: 'tags' };
+      assertEntries(foundEntries, { hasCount: 3, where: { ...sharedWhere, operation: 'addElement' } });
+      assertEntries(foundEntries, { hasCount: 2, where: { ...sharedWhere, operation: 'removeElement' } });
+
+      // Each removal should have the tags of the additions (or the `put()`) that it removed.
+      const setEntry = foundEntries.find((entry) => entry.prop === 'tags' && entry.operation === undefined);
+      const urgentTags = foundEntries
+        .filter((entry) => entry.operation === 'addElement' && entry.value === 'urgent')
+        .map((entry) => entry.hlcTime);
+      const removals = foundEntries.filter((entry) => entry.operation === 'removeElement').map((entry) => entry.value);
+      expect(removals).to.deep.equal([
+        { element: 'home', tags: [setEntry?.hlcTime] },
+        { element: 'urgent', tags: urgentTags },
+      ]);
+    });
+
+    it(`throws, rolls back transaction if the prop is invalid`, async () => {
+      let caughtAddError;
+      let caughtTransactionError;
+
+      try {
+        await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+          proxiedStore.add(defaultTodoItem);
+
+          try {
+            (proxiedStore as IDBSideSync.ProxiedObjectStore).addElement(defaultTodoItem.id, '', 'urgent');
+          } catch (error) {
+            caughtAddError = error;
+          }
+        });
+      } catch (error) {
+        caughtTransactionError = error;
+      }
+
+      expect(caughtAddError).to.be.instanceOf(TypeError);
+      expect(caughtTransactionError.message).to.match(CROSS_BROWSER_TX_ABORTED_MSG_SNIPPET);
+
+      let foundTodos;
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        foundTodos = await IDBSideSync.utils.request(proxiedStore.getAll());
+      });
+      expect(foundTodos).to.have.length(0);
+    });
+  });
+
+  describe('store.spliceText() / store.updateText()', () => {
+    it(`updates text props and records "insertText"/"deleteText" oplog entries`, async () => {
+      let foundTodo;
+      let foundEntries: OpLogEntry[] = [];
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ ...defaultTodoItem, notes: 'buy milk' });
+        const store = proxiedStore as IDBSideSync.ProxiedObjectStore;
+        store.updateText(defaultTodoItem.id, 'notes', 'buy oat milk');
+        store.spliceText(defaultTodoItem.id, 'notes', { index: 0, deleteCount: 3, insert: 'get' });
+      });
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore, oplogStore) => {
+        foundTodo = await IDBSideSync.utils.request(proxiedStore.get(defaultTodoItem.id));
+        foundEntries = (await IDBSideSync.utils.request(oplogStore.getAll())) as OpLogEntry[];
+      });
+
+      expect(foundTodo).to.deep.equal({ ...defaultTodoItem, notes: 'get oat milk' });
+
+      const sharedWhere = { store: TODO_ITEMS_STORE, objectKey: defaultTodoItem.id, prop: 'notes' };
+      assertEntries(foundEntries, { hasCount: 2, where: { ...sharedWhere, operation: 'insertText' } });
+      assertEntries(foundEntries, { hasCount: 1, where: { ...sharedWhere, operation: 'deleteText' } });
+
+      // Applying the entries on another client should result in the same text.
+      const notesEntries = foundEntries.filter((entry) => entry.prop === 'notes');
+      const setEntry = notesEntries.find((entry) => entry.operation === undefined);
+      expect(IDBSideSync.text.materialize(setEntry, notesEntries.slice(1))).to.equal('get oat milk');
+    });
+
+    it(`throws, rolls back transaction if the splice is invalid`, async () => {
+      let caughtSpliceError;
+      let caughtTransactionError;
+
+      try {
+        await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+          proxiedStore.add(defaultTodoItem);
+
+          try {
+            //@ts-ignore
+            (proxiedStore as IDBSideSync.ProxiedObjectStore).spliceText(defaultTodoItem.id, 'notes', { index: 0 });
+          } catch (error) {
+            caughtSpliceError = error;
+          }
+        });
+      } catch (error) {
+        caughtTransactionError = error;
+      }
+
+      expect(caughtSpliceError).to.be.instanceOf(TypeError);
+      expect(caughtTransactionError.message).to.match(CROSS_BROWSER_TX_ABORTED_MSG_SNIPPET);
+
+      let foundTodos;
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        foundTodos = await IDBSideSync.utils.request(proxiedStore.getAll());
+      });
+      expect(foundTodos).to.have.length(0);
+    });
+  });
+
+  describe('cursor proxy', () => {
+    /**
+     * Helper for iterating over a cursor request and calling `onCursor` for each object (returns a promise that resolves
+     * once the cursor has reached the end).
+     */
+    function iterate(cursorReq: IDBRequest<IDBCursorWithValue | null>, onCursor: (cursor: IDBCursorWithValue) => void) {
+      return new Promise<void>((resolve, reject) => {
+        cursorReq.onerror = reject;
+        cursorReq.onsuccess = (event) => {
+          // Deliberately getting the cursor via `event.target` (instead of `cursorReq.result`) since that's what most
+          // code does--and since `event.target` is the original, un-proxied request.
+          const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) {
+            resolve();
+            return;
+          }
+          onCursor(cursor);
+          cursor.continue();
+        };
+      });
+    }
+
+    it(`records oplog entries for cursor.update() and cursor.delete() on a store cursor`, async () => {
+      let foundTodos;
+      let foundEntries;
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.add({ ...defaultTodoItem, id: 1 });
+        proxiedStore.add({ ...defaultTodoItem, id: 2 });
+      });
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        return iterate(proxiedStore.openCursor(), (cursor) => {
+          if (cursor.value.id === 1) {
+            throwOnReqError(cursor.update({ ...cursor.value, done: true }));
+          } else {
+            throwOnReqError(cursor.delete());
+          }
+        });
+      });
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore, oplogStore) => {
+        foundTodos = await IDBSideSync.utils.request(proxiedStore.getAll());
+        foundEntries = await IDBSideSync.utils.request(oplogStore.getAll());
+      });
+
+      expect(foundTodos).to.deep.equal([{ ...defaultTodoItem, id: 1, done: true }]);
+      assertEntries(foundEntries, { hasCount: 1, where: { objectKey: 1, prop: 'done', value: true } });
+      assertEntries(foundEntries, { hasCount: 1, where: { objectKey: 2, prop: '', operation: 'delete' } });
+    });
+
+    it(`records oplog entries for cursor.update() and cursor.delete() on an index cursor`, async () => {
+      let foundTodos;
+      let foundEntries;
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.add({ ...defaultTodoItem, id: 1, name: 'buy milk' });
+        proxiedStore.add({ ...defaultTodoItem, id: 2, name: 'buy eggs' });
+        proxiedStore.add({ ...defaultTodoItem, id: 3, name: 'wash car' });
+      });
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        const index = proxiedStore.index(TODO_ITEMS_BY_NAME_INDEX);
+        return iterate(index.openCursor(IDBKeyRange.bound('buy', 'buy\uffff')), (cursor) => {
+          if (cursor.value.id === 1) {
+            throwOnReqError(cursor.update({ ...cursor.value, done: true }));
+          } else {
+            throwOnReqError(cursor.delete());
+          }
+        });
+      });
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore, oplogStore) => {
+        foundTodos = await IDBSideSync.utils.request(proxiedStore.getAll());
+        foundEntries = await IDBSideSync.utils.request(oplogStore.getAll());
+      });
+
+      expect(foundTodos.map((todo: TodoItem) => todo.id)).to.deep.equal([1, 3]);
+      expect(foundTodos[0].done).to.be.true;
+      assertEntries(foundEntries, { hasCount: 1, where: { objectKey: 1, prop: 'done', value: true } });
+      assertEntries(foundEntries, { hasCount: 1, where: { objectKey: 2, operation: 'delete' } });
+      assertEntries(foundEntries, { hasCount: 0, where: { objectKey: 3, operation: 'delete' } });
+    });
+
+    it(`merges the value passed to cursor.update() with the existing object, just like put()`, async () => {
+      const key = 'foo';
+      let foundValue;
+
+      await transaction([GLOBAL_SETTINGS_STORE], (proxiedStore) => {
+        proxiedStore.put({ a: 1, b: 2 }, key);
+      });
+
+      await transaction([GLOBAL_SETTINGS_STORE], (proxiedStore) => {
+        return iterate(proxiedStore.openCursor(), (cursor) => {
+          throwOnReqError(cursor.update({ b: 3 }));
+        });
+      });
+
+      await transaction([GLOBAL_SETTINGS_STORE], async (proxiedStore) => {
+        foundValue = await IDBSideSync.utils.request(proxiedStore.get(key));
+      });
+
+      expect(foundValue).to.deep.equal({ a: 1, b: 3 });
+    });
+
+    it(`throws if the object passed to cursor.update() has a different key`, async () => {
+      let caughtError;
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.add({ ...defaultTodoItem, id: 1 });
+      });
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        return iterate(proxiedStore.openCursor(), (cursor) => {
+          try {
+            cursor.update({ ...cursor.value, id: 2 });
+          } catch (error) {
+            caughtError = error;
+          }
+        });
+      });
+
+      expect(caughtError).to.be.instanceOf(CursorKeyMismatchError);
+    });
+  });
 });
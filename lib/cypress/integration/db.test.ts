@@ -9,6 +9,8 @@ import {
   GLOBAL_SETTINGS_STORE,
   insertDummyOpLogEntries,
   log,
+  NOTES_STORE,
+  resolveOnTxComplete,
   SCOPED_SETTINGS_STORE,
   TODOS_DB,
   TODO_ITEMS_STORE,
@@ -58,6 +60,416 @@ context('db', () => {
     expect(settings.nodeId).not.to.be.empty;
   });
 
+  describe('oplog merkle tree', () => {
+    it('is updated whenever oplog entries are recorded or applied', async () => {
+      const clientId = makeClientId();
+      const remoteEntry: OpLogEntry = {
+        clientId,
+        hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}`,
+        objectKey: 123,
+        prop: 'name',
+        store: TODO_ITEMS_STORE,
+        value: 'foo',
+      };
+      let oplogKeys: IDBValidKey[] = [];
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy cookies', done: false });
+        proxiedStore.delete(2);
+      });
+
+      await IDBSideSync.applyOplogEntry(remoteEntry);
+      // Applying the same entry again shouldn't affect the tree.
+      await IDBSideSync.applyOplogEntry(remoteEntry);
+
+      await transaction([], async (oplogStore) => {
+        oplogKeys = (await IDBSideSync.utils.request(oplogStore.getAllKeys())) as IDBValidKey[];
+      });
+
+      const expectedTree = IDBSideSync.merkle.build(oplogKeys.map((key) => HLTime.parse(key as string)));
+      expect(oplogKeys).to.have.length(5);
+      expect(await IDBSideSync.getOplogMerkleTree()).to.deep.equal(expectedTree);
+      expect(await IDBSideSync.getOplogMerkleDivergenceTime(expectedTree)).to.be.null;
+
+      // A tree that only has the remote entry should diverge at (roughly) the time the local entries were recorded.
+      const otherTree = IDBSideSync.merkle.build([HLTime.parse(remoteEntry.hlcTime)]);
+      const divergenceTime = await IDBSideSync.getOplogMerkleDivergenceTime(otherTree);
+      expect(divergenceTime?.getTime()).to.be.greaterThan(HLTime.parse(remoteEntry.hlcTime).millis());
+      expect(divergenceTime?.getTime()).to.be.at.most(HLTime.parse(oplogKeys[oplogKeys.length - 1] as string).millis());
+    });
+
+    it(`is updated right after transactions that don't include META_STORE`, async () => {
+      const db = await getDb();
+      // onChange() listeners are called after the tree's update has been queued.
+      const changesPromise = new Promise<ObjectChange[]>((resolve) => {
+        const unsubscribe = IDBSideSync.onChange((changes) => {
+          unsubscribe();
+          resolve(changes);
+        });
+      });
+      await IDBSideSync.utils.transaction(db, [TODO_ITEMS_STORE, OPLOG_STORE], 'readwrite', async (todosStore) => {
+        IDBSideSync.proxyStore(todosStore).put({ id: 1, name: 'buy cookies', done: false });
+      });
+      await changesPromise;
+
+      let oplogKeys: IDBValidKey[] = [];
+      await transaction([], async (oplogStore) => {
+        oplogKeys = (await IDBSideSync.utils.request(oplogStore.getAllKeys())) as IDBValidKey[];
+      });
+      expect(oplogKeys).to.have.length(3);
+      expect(await IDBSideSync.getOplogMerkleTree()).to.deep.equal(
+        IDBSideSync.merkle.build(oplogKeys.map((key) => HLTime.parse(key as string)))
+      );
+    });
+  });
+
+  describe('compactOplog()', () => {
+    const remoteClientId = makeClientId();
+
+    function remoteEntry(millis: number, props: Partial<OpLogEntry>): OpLogEntry {
+      return {
+        clientId: remoteClientId,
+        hlcTime: new HLTime(millis, 0, remoteClientId).toString(),
+        objectKey: 'setting1',
+        prop: '',
+        store: GLOBAL_SETTINGS_STORE,
+        value: null,
+        ...props,
+      };
+    }
+
+    async function getAllEntries(): Promise<OpLogEntry[]> {
+      let entries: OpLogEntry[] = [];
+      await transaction([], async (oplogStore) => {
+        entries = (await IDBSideSync.utils.request(oplogStore.getAll())) as OpLogEntry[];
+      });
+      return entries;
+    }
+
+    it(`deletes superseded entries but not the client's own entries if there are no sync plugins`, async () => {
+      const firstTime = Date.parse('2021-01-24T13:23:14.203Z');
+      const entry1 = remoteEntry(firstTime, { store: TODO_ITEMS_STORE, objectKey: 1, prop: 'name', value: 'foo' });
+      const entry2 = remoteEntry(firstTime + 1, { store: TODO_ITEMS_STORE, objectKey: 1, prop: 'name', value: 'bar' });
+      const entry3 = remoteEntry(firstTime + 2, { store: TODO_ITEMS_STORE, objectKey: 1, prop: 'done', value: true });
+      await IDBSideSync.applyOplogEntry(entry1);
+      await IDBSideSync.applyOplogEntry(entry2);
+      await IDBSideSync.applyOplogEntry(entry3);
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 2, name: 'buy cookies' });
+      });
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 2, name: 'buy milk' });
+      });
+
+      const treeBefore = await IDBSideSync.getOplogMerkleTree();
+      const numDeleted = await IDBSideSync.compactOplog();
+
+      const entries = await getAllEntries();
+      expect(numDeleted).to.equal(1);
+      expect(entries).to.have.length(6);
+      assertEntries(entries, { hasCount: 0, where: { hlcTime: entry1.hlcTime } });
+      assertEntries(entries, { hasCount: 1, where: { hlcTime: entry2.hlcTime } });
+      assertEntries(entries, { hasCount: 1, where: { hlcTime: entry3.hlcTime } });
+      assertEntries(entries, { hasCount: 2, where: { objectKey: 2, prop: 'name' } });
+
+      // The Merkle tree should still include the time of the deleted entry.
+      expect(await IDBSideSync.getOplogMerkleTree()).to.deep.equal(treeBefore);
+
+      // Receiving the deleted entry again shouldn't result in it being re-added (it's still superseded).
+      await IDBSideSync.applyOplogEntry(entry1);
+      assertEntries(await getAllEntries(), { hasCount: 0, where: { hlcTime: entry1.hlcTime } });
+    });
+
+    it(`keeps the most recent deletion entry for each object`, async () => {
+      const firstTime = Date.parse('2021-01-24T13:23:14.203Z');
+      const entry1 = remoteEntry(firstTime, { value: 'foo' });
+      const entry2 = remoteEntry(firstTime + 1, { operation: 'delete' });
+      const entry3 = remoteEntry(firstTime + 2, { operation: 'delete' });
+      const entry4 = remoteEntry(firstTime + 3, { value: 'bar' });
+      for (const entry of [entry1, entry2, entry3, entry4]) {
+        await IDBSideSync.applyOplogEntry(entry);
+      }
+
+      expect(await IDBSideSync.compactOplog()).to.equal(2);
+      const entries = await getAllEntries();
+      expect(entries.map((entry) => entry.hlcTime)).to.deep.equal([entry3.hlcTime, entry4.hlcTime]);
+    });
+
+    it(`keeps superseded entries created within the history retention window`, async () => {
+      const minutes = (n: number) => n * 60 * 1000;
+      const now = Date.now();
+      const entry1 = remoteEntry(now - minutes(10), { value: 'foo' });
+      const entry2 = remoteEntry(now - minutes(5), { value: 'bar' });
+      const entry3 = remoteEntry(now - minutes(1), { value: 'baz' });
+      for (const entry of [entry1, entry2, entry3]) {
+        await IDBSideSync.applyOplogEntry(entry);
+      }
+
+      expect(await IDBSideSync.compactOplog({ historyRetentionMsec: minutes(7) })).to.equal(1);
+      const entries = await getAllEntries();
+      expect(entries.map((entry) => entry.hlcTime)).to.deep.equal([entry2.hlcTime, entry3.hlcTime]);
+    });
+
+    it(`deleteSupersededEntries() doesn't delete protected entries`, async () => {
+      const { nodeId } = IDBSideSync.getSettings();
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy cookies' });
+      });
+      await waitForAFew();
+      const protectedAfterTime = new Date();
+      await waitForAFew();
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy milk' });
+      });
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy eggs' });
+      });
+
+      const numDeleted = await IDBSideSync.deleteSupersededEntries({
+        keepAfterTime: new Date(Date.now() + 60 * 1000),
+        protectedClientId: nodeId,
+        protectedAfterTime,
+      });
+
+      const entries = await getAllEntries();
+      expect(numDeleted).to.equal(3);
+      assertEntries(entries, { hasCount: 0, where: { prop: 'name', value: 'buy cookies' } });
+      assertEntries(entries, { hasCount: 1, where: { prop: 'name', value: 'buy milk' } });
+      assertEntries(entries, { hasCount: 1, where: { prop: 'name', value: 'buy eggs' } });
+      assertEntries(entries, { hasCount: 2, where: { prop: 'id' } });
+    });
+  });
+
+  describe('oplog snapshots', () => {
+    it('can be used to bootstrap a new client', async () => {
+      const { nodeId } = IDBSideSync.getSettings();
+      const remoteClientId = makeClientId();
+      const firstTime = Date.parse('2021-01-24T13:23:14.203Z');
+      const remoteEntries: OpLogEntry[] = [
+        { value: 'foo' },
+        { value: null, operation: 'delete' as const },
+        { value: 'bar' },
+        { value: 'baz' },
+      ].map((props, i) => ({
+        clientId: remoteClientId,
+        hlcTime: new HLTime(firstTime + i, 0, remoteClientId).toString(),
+        objectKey: 'setting1',
+        prop: '',
+        store: GLOBAL_SETTINGS_STORE,
+        ...props,
+      }));
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy cookies' });
+        proxiedStore.put({ id: 2, name: 'buy milk' });
+      });
+      expect(await IDBSideSync.hasEntriesFromOtherClients(nodeId)).to.equal(false);
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy eggs' });
+        proxiedStore.delete(2);
+      });
+      await IDBSideSync.applyOplogEntries(remoteEntries);
+      expect(await IDBSideSync.hasEntriesFromOtherClients(nodeId)).to.equal(true);
+
+      const snapshot = await IDBSideSync.createOplogSnapshot();
+      // Superseded entries shouldn't be included (except for the most recent deletion of each object).
+      expect(snapshot.entries).to.have.length(7);
+      assertEntries(snapshot.entries, { hasCount: 0, where: { prop: 'name', value: 'buy cookies' } });
+      assertEntries(snapshot.entries, { hasCount: 1, where: { hlcTime: remoteEntries[1].hlcTime } });
+      assertEntries(snapshot.entries, { hasCount: 1, where: { hlcTime: remoteEntries[3].hlcTime } });
+      expect(snapshot.clientId).to.equal(nodeId);
+      expect(snapshot.clientWatermarks[remoteClientId]).to.equal(remoteEntries[3].hlcTime);
+      expect(snapshot.clientWatermarks[nodeId]).to.equal(
+        (await IDBSideSync.getMostRecentEntryForClient(nodeId))?.hlcTime
+      );
+
+      let expectedTodos: unknown[] = [];
+      let expectedSettings: unknown[] = [];
+      await transaction([TODO_ITEMS_STORE, GLOBAL_SETTINGS_STORE], async (todosStore, settingsStore) => {
+        expectedTodos = (await IDBSideSync.utils.request(todosStore.getAll())) as unknown[];
+        expectedSettings = (await IDBSideSync.utils.request(settingsStore.getAll())) as unknown[];
+      });
+
+      // Start over with an empty database (i.e., a new client) and apply the snapshot.
+      await deleteDb();
+      await IDBSideSync.init(await getDb());
+      await IDBSideSync.applyOplogSnapshot(JSON.parse(JSON.stringify(snapshot)));
+
+      await transaction([TODO_ITEMS_STORE, GLOBAL_SETTINGS_STORE], async (todosStore, settingsStore) => {
+        expect(await IDBSideSync.utils.request(todosStore.getAll())).to.deep.equal(expectedTodos);
+        expect(await IDBSideSync.utils.request(settingsStore.getAll())).to.deep.equal(expectedSettings);
+      });
+    });
+
+    it('applyOplogSnapshot() throws error when passed an invalid snapshot', async () => {
+      let caughtError;
+      try {
+        //@ts-ignore
+        await IDBSideSync.applyOplogSnapshot({ entries: [] });
+      } catch (error) {
+        caughtError = error;
+      }
+      assert(
+        caughtError instanceof IDBSideSync.InvalidOplogSnapshotError,
+        `Should throw error of type InvalidOplogSnapshotError`
+      );
+    });
+  });
+
+  describe('applyOplogEntries()', () => {
+    const clientId = makeClientId();
+    const firstTime = Date.parse('2021-01-24T13:23:14.203Z');
+    const makeEntry = (i: number, props: Partial<OpLogEntry>): OpLogEntry => ({
+      clientId,
+      hlcTime: new HLTime(firstTime + i, 0, clientId).toString(),
+      objectKey: 1,
+      prop: 'name',
+      store: TODO_ITEMS_STORE,
+      value: null,
+      ...props,
+    });
+
+    it('applies multiple entries for the same object', async () => {
+      const results = await IDBSideSync.applyOplogEntries([
+        makeEntry(0, { prop: '', value: { id: 1, name: 'buy cookies', done: false } }),
+        makeEntry(3, { value: 'buy eggs' }),
+        makeEntry(2, { prop: 'done', value: true }),
+        // Older than the 'buy eggs' entry, so it should be ignored (and not added to the oplog).
+        makeEntry(1, { value: 'buy milk' }),
+        makeEntry(4, { objectKey: 2, prop: '', value: { id: 2, name: 'buy bread' } }),
+        makeEntry(5, { objectKey: 2, prop: '', value: null, operation: 'delete' }),
+      ]);
+
+      let foundTodos;
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        foundTodos = await IDBSideSync.utils.request(proxiedStore.getAll());
+      });
+      expect(foundTodos).to.deep.equal([{ id: 1, name: 'buy eggs', done: true }]);
+      expect(results.map((result) => result.status)).to.deep.equal([
+        'applied',
+        'applied',
+        'applied',
+        'ignored',
+        'applied',
+        'applied',
+      ]);
+      expect(results[3].reason).to.be.a('string');
+
+      const entries = [];
+      for await (const entry of IDBSideSync.getEntriesByTime()) {
+        entries.push(entry);
+      }
+      expect(entries).to.have.length(5);
+    });
+
+    it('rejects invalid entries without affecting the rest of the entries', async () => {
+      const changeSet = [makeEntry(1, { value: 'buy eggs' }), makeEntry(2, { prop: 'done', value: true })];
+      changeSet.forEach((entry) => (entry.changeSetId = changeSet[0].hlcTime));
+      changeSet[1].changeSetSize = 2;
+
+      const results = await IDBSideSync.applyOplogEntries([
+        makeEntry(0, { prop: '', value: { id: 1, name: 'buy cookies', done: false } }),
+        // @ts-ignore
+        { store: TODO_ITEMS_STORE },
+        ...changeSet,
+      ]);
+      expect(results.map((result) => result.status)).to.deep.equal(['applied', 'rejected', 'applied', 'applied']);
+      expect(results[1].reason).to.be.a('string');
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        expect(await IDBSideSync.utils.request(proxiedStore.get(1))).to.deep.equal({
+          id: 1,
+          name: 'buy eggs',
+          done: true,
+        });
+      });
+    });
+
+    it('applies each batch in a single transaction', async () => {
+      const entries = [
+        makeEntry(0, { objectKey: 1, value: 'buy cookies' }),
+        makeEntry(1, { objectKey: 2, value: 'buy milk' }),
+        makeEntry(2, { objectKey: 3, value: 'buy eggs' }),
+        // Not a valid object for the target store (i.e., it doesn't have an `id` property), so it can't be saved.
+        makeEntry(3, { objectKey: 4, prop: '', value: 'buy bread' }),
+      ];
+
+      let caughtError;
+      try {
+        await IDBSideSync.applyOplogEntries(entries, { batchSize: 2 });
+      } catch (error) {
+        caughtError = error;
+      }
+      assert(caughtError instanceof IDBSideSync.ApplyPutError, `Should throw error of type ApplyPutError`);
+
+      // The first batch should have been committed, but none of the entries from the second batch.
+      let foundTodos;
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        foundTodos = await IDBSideSync.utils.request(proxiedStore.getAll());
+      });
+      expect(foundTodos).to.deep.equal([
+        { name: 'buy cookies', id: 1 },
+        { name: 'buy milk', id: 2 },
+      ]);
+
+      const foundEntries = [];
+      for await (const entry of IDBSideSync.getEntriesByTime()) {
+        foundEntries.push(entry);
+      }
+      expect(foundEntries.map((entry) => entry.hlcTime)).to.deep.equal([entries[0].hlcTime, entries[1].hlcTime]);
+    });
+  });
+
+  describe('conflict resolvers', () => {
+    afterEach(() => {
+      IDBSideSync.unregisterConflictResolver(TODO_ITEMS_STORE, { prop: 'score' });
+    });
+
+    it('are used when applying entries and merging objects passed to put()', async () => {
+      IDBSideSync.registerConflictResolver(TODO_ITEMS_STORE, 'max', { prop: 'score' });
+      const clientId = makeClientId();
+      const firstTime = Date.parse('2021-01-24T13:23:14.203Z');
+      const [entry1, entry2, entry3] = [10, 7, 12].map((value, i) => ({
+        clientId,
+        hlcTime: new HLTime(firstTime + i, 0, clientId).toString(),
+        objectKey: 1,
+        prop: 'score',
+        store: TODO_ITEMS_STORE,
+        value,
+      }));
+
+      const getTodo = async () => {
+        let foundTodo;
+        await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+          foundTodo = await IDBSideSync.utils.request(proxiedStore.get(1));
+        });
+        return foundTodo;
+      };
+
+      const results = await IDBSideSync.applyOplogEntries([entry1, entry2]);
+      expect(results.map((result) => result.status)).to.deep.equal(['applied', 'ignored']);
+      expect(await getTodo()).to.deep.equal({ id: 1, score: 10 });
+
+      // The local put() is more recent, but it should lose to the existing (higher) score.
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy cookies', score: 5 });
+      });
+      expect(await getTodo()).to.deep.equal({ id: 1, name: 'buy cookies', score: 10 });
+
+      // An older entry with a higher score should win.
+      expect((await IDBSideSync.applyOplogEntry(entry3)).status).to.equal('applied');
+      expect(await getTodo()).to.deep.equal({ id: 1, name: 'buy cookies', score: 12 });
+
+      // Compaction shouldn't delete the winning entry, even though more recent entries exist.
+      await IDBSideSync.compactOplog();
+      const snapshot = await IDBSideSync.createOplogSnapshot();
+      assertEntries(snapshot.entries, { hasCount: 1, where: { hlcTime: entry3.hlcTime } });
+    });
+  });
+
   describe('applyOplogEntry()', () => {
     it('throws error when passed an invalid oplog entry object', async () => {
       let caughtError;
@@ -120,6 +532,67 @@ context('db', () => {
       expect(foundTodo).to.deep.equal(expected);
     });
 
+    it(`works when target store has a nested keyPath`, async () => {
+      let foundNote;
+      const objectKey = 'note1';
+      let clientId = makeClientId();
+
+      await IDBSideSync.applyOplogEntry({
+        clientId,
+        hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}`,
+        objectKey: objectKey,
+        prop: 'text',
+        store: NOTES_STORE,
+        value: 'meow',
+      });
+
+      // An entry for the top-level prop that "contains" the key shouldn't cause the key to be lost.
+      await IDBSideSync.applyOplogEntry({
+        clientId,
+        hlcTime: `2021-01-24T13:23:14.203Z_0001_${clientId}`,
+        objectKey: objectKey,
+        prop: 'meta',
+        store: NOTES_STORE,
+        value: { author: 'gary' },
+      });
+
+      await transaction([NOTES_STORE], async (proxiedStore) => {
+        foundNote = await IDBSideSync.utils.request(proxiedStore.get(objectKey));
+      });
+
+      expect(foundNote).to.deep.equal({ meta: { id: objectKey, author: 'gary' }, text: 'meow' });
+    });
+
+    it('merges path-based entries for different nested props of the same object', async () => {
+      let foundValue;
+      const objectKey = 'prefs';
+      const clientA = makeClientId();
+      const clientB = makeClientId();
+      const entry = (hlcTime: string, clientId: string, prop: OpLogEntry['prop'], value: unknown): OpLogEntry => ({
+        clientId,
+        hlcTime: `${hlcTime}_0000_${clientId}`,
+        objectKey,
+        prop,
+        store: GLOBAL_SETTINGS_STORE,
+        value,
+      });
+
+      await IDBSideSync.applyOplogEntry(entry('2021-01-24T13:23:14.201Z', clientA, 'theme', { font: 'Arial' }));
+      // Concurrent changes to different nested props from two different clients
+      await IDBSideSync.applyOplogEntry(entry('2021-01-24T13:23:14.203Z', clientA, ['theme', 'color'], 'red'));
+      await IDBSideSync.applyOplogEntry(entry('2021-01-24T13:23:14.202Z', clientB, ['theme', 'size'], 12));
+      // An older change to the parent prop must not overwrite the more recent nested changes...
+      await IDBSideSync.applyOplogEntry(entry('2021-01-24T13:23:14.200Z', clientB, 'theme', { font: 'Mono' }));
+      // ...and an older change to a nested prop must not be applied if the parent prop was set more recently.
+      await IDBSideSync.applyOplogEntry(entry('2021-01-24T13:23:14.199Z', clientB, ['theme', 'bold'], true));
+
+      await transaction([GLOBAL_SETTINGS_STORE], async (proxiedStore) => {
+        foundValue = await IDBSideSync.utils.request(proxiedStore.get(objectKey));
+      });
+
+      expect(foundValue).to.deep.equal({ theme: { font: 'Arial', color: 'red', size: 12 } });
+    });
+
     it('ignores oplog entry if a newer one exists', async () => {
       const clientId = makeClientId();
       const objectKey = 123;
@@ -288,6 +761,1134 @@ context('db', () => {
       assertEntries(foundEntries, { hasCount: 1, where: { ...sharedWhere, prop: 'meaning' } });
       assertEntries(foundEntries, { hasCount: 2, where: { ...sharedWhere, prop: 'foo' } });
     });
+
+    it('deletes object when applying a tombstone entry', async () => {
+      const clientId = makeClientId();
+      const objectKey = 123;
+      let foundTodo;
+
+      await IDBSideSync.applyOplogEntry({
+        clientId,
+        hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}`,
+        objectKey,
+        prop: 'name',
+        store: TODO_ITEMS_STORE,
+        value: 'foo',
+      });
+
+      await IDBSideSync.applyOplogEntry({
+        clientId,
+        hlcTime: `2021-01-24T13:23:14.203Z_0001_${clientId}`,
+        objectKey,
+        prop: '',
+        store: TODO_ITEMS_STORE,
+        value: null,
+        operation: 'delete',
+      });
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        foundTodo = await IDBSideSync.utils.request(proxiedStore.get(objectKey));
+      });
+
+      expect(foundTodo).to.be.undefined;
+    });
+
+    it('keeps props that were set after the tombstone time', async () => {
+      const clientId = makeClientId();
+      const objectKey = 123;
+      let foundTodo;
+
+      const entries: OpLogEntry[] = [
+        {
+          clientId,
+          hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}`,
+          objectKey,
+          prop: 'name',
+          store: TODO_ITEMS_STORE,
+          value: 'foo',
+        },
+        {
+          clientId,
+          hlcTime: `2021-01-24T13:23:14.203Z_0002_${clientId}`,
+          objectKey,
+          prop: 'done',
+          store: TODO_ITEMS_STORE,
+          value: true,
+        },
+        {
+          clientId,
+          hlcTime: `2021-01-24T13:23:14.203Z_0001_${clientId}`,
+          objectKey,
+          prop: '',
+          store: TODO_ITEMS_STORE,
+          value: null,
+          operation: 'delete',
+        },
+      ];
+
+      for (const entry of entries) {
+        await IDBSideSync.applyOplogEntry(entry);
+      }
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        foundTodo = await IDBSideSync.utils.request(proxiedStore.get(objectKey));
+      });
+
+      expect(foundTodo).to.deep.equal({ id: objectKey, done: true });
+    });
+
+    it('ignores entry that sets a prop if object was deleted more recently', async () => {
+      const clientId = makeClientId();
+      const objectKey = 123;
+      let foundTodo;
+      let foundEntries;
+
+      await IDBSideSync.applyOplogEntry({
+        clientId,
+        hlcTime: `2021-01-24T13:23:14.203Z_0001_${clientId}`,
+        objectKey,
+        prop: '',
+        store: TODO_ITEMS_STORE,
+        value: null,
+        operation: 'delete',
+      });
+
+      await IDBSideSync.applyOplogEntry({
+        clientId,
+        hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}`,
+        objectKey,
+        prop: 'name',
+        store: TODO_ITEMS_STORE,
+        value: 'stale',
+      });
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore, oplogStore) => {
+        foundTodo = await IDBSideSync.utils.request(proxiedStore.get(objectKey));
+        foundEntries = await IDBSideSync.utils.request(oplogStore.getAll());
+      });
+
+      expect(foundTodo).to.be.undefined;
+      expect(foundEntries).to.have.length(1);
+    });
+
+    it('only deletes props that were set before a "clear" entry', async () => {
+      const clientId = makeClientId();
+      let foundTodos;
+
+      const entries: OpLogEntry[] = [
+        {
+          clientId,
+          hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}`,
+          objectKey: 1,
+          prop: 'name',
+          store: TODO_ITEMS_STORE,
+          value: 'cleared',
+        },
+        {
+          clientId,
+          hlcTime: `2021-01-24T13:23:14.203Z_0001_${clientId}`,
+          objectKey: 2,
+          prop: 'name',
+          store: TODO_ITEMS_STORE,
+          value: 'cleared',
+        },
+        {
+          clientId,
+          hlcTime: `2021-01-24T13:23:14.203Z_0003_${clientId}`,
+          objectKey: 2,
+          prop: 'done',
+          store: TODO_ITEMS_STORE,
+          value: true,
+        },
+        {
+          clientId,
+          hlcTime: `2021-01-24T13:23:14.203Z_0002_${clientId}`,
+          objectKey: IDBSideSync.STORE_CLEAR_OBJECT_KEY,
+          prop: '',
+          store: TODO_ITEMS_STORE,
+          value: null,
+          operation: 'clear',
+        },
+      ];
+
+      for (const entry of entries) {
+        await IDBSideSync.applyOplogEntry(entry);
+      }
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        foundTodos = await IDBSideSync.utils.request(proxiedStore.getAll());
+      });
+
+      expect(foundTodos).to.deep.equal([{ id: 2, done: true }]);
+
+      // An entry that was created before the clear (e.g., by a client that hadn't synced yet) should be ignored.
+      await IDBSideSync.applyOplogEntry({ ...entries[0], hlcTime: `2021-01-24T13:23:14.203Z_0001_${makeClientId()}` });
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        foundTodos = await IDBSideSync.utils.request(proxiedStore.getAll());
+      });
+
+      expect(foundTodos).to.deep.equal([{ id: 2, done: true }]);
+    });
+
+    it('sums the increments made by each client after a counter was last set', async () => {
+      const clientA = makeClientId();
+      const clientB = makeClientId();
+      const objectKey = 123;
+      let foundTodo;
+
+      const makeEntry = (clientId: string, counter: string, value: number, operation?: OpLogEntryOperation) => ({
+        clientId,
+        hlcTime: `2021-01-24T13:23:14.203Z_${counter}_${clientId}`,
+        objectKey,
+        prop: 'quantity',
+        store: TODO_ITEMS_STORE,
+        value,
+        operation,
+      });
+
+      const entries: OpLogEntry[] = [
+        makeEntry(clientA, '0002', 1, 'increment'),
+        makeEntry(clientB, '0002', 3, 'increment'),
+        makeEntry(clientB, '0003', -1, 'increment'),
+        // The counter was set after this client's first increment was made, so that increment shouldn't count.
+        makeEntry(clientA, '0001', 10),
+        makeEntry(clientA, '0000', 5, 'increment'),
+      ];
+
+      for (const entry of entries) {
+        await IDBSideSync.applyOplogEntry(entry);
+      }
+      // Applying an increment a second time shouldn't change the counter.
+      await IDBSideSync.applyOplogEntry(entries[1]);
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        foundTodo = await IDBSideSync.utils.request(proxiedStore.get(objectKey));
+      });
+
+      expect(foundTodo).to.deep.equal({ id: objectKey, quantity: 13 });
+    });
+
+    it('merges elements added to and removed from a set by different clients', async () => {
+      const clientA = makeClientId();
+      const clientB = makeClientId();
+      const objectKey = 123;
+      let foundTodo;
+
+      const makeEntry = (clientId: string, counter: string, value: unknown, operation?: OpLogEntryOperation) => ({
+        clientId,
+        hlcTime: `2021-01-24T13:23:14.203Z_${counter}_${clientId}`,
+        objectKey,
+        prop: 'tags',
+        store: TODO_ITEMS_STORE,
+        value,
+        operation,
+      });
+
+      const setEntry = makeEntry(clientA, '0000', ['home', 'urgent']);
+      const entries: OpLogEntry[] = [
+        setEntry,
+        // Client A removes "urgent" while client B adds it again; B's addition wasn't "observed" by A, so it's kept.
+        makeEntry(clientA, '0001', { element: 'urgent', tags: [setEntry.hlcTime] }, 'removeElement'),
+        makeEntry(clientB, '0001', 'urgent', 'addElement'),
+        makeEntry(clientB, '0002', 'errand', 'addElement'),
+        makeEntry(clientA, '0003', { element: 'home', tags: [setEntry.hlcTime] }, 'removeElement'),
+      ];
+
+      // The entries should have the same result regardless of the order in which they're applied.
+      for (const entry of [...entries].reverse()) {
+        await IDBSideSync.applyOplogEntry(entry);
+      }
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        foundTodo = await IDBSideSync.utils.request(proxiedStore.get(objectKey));
+      });
+
+      expect(foundTodo).to.deep.equal({ id: objectKey, tags: ['urgent', 'errand'] });
+    });
+
+    it('merges text edits made by different clients', async () => {
+      const clientA = makeClientId();
+      const clientB = makeClientId();
+      const objectKey = 123;
+      let foundTodo;
+
+      const makeEntry = (clientId: string, counter: string, value: unknown, operation?: OpLogEntryOperation) => ({
+        clientId,
+        hlcTime: `2021-01-24T13:23:14.203Z_${counter}_${clientId}`,
+        objectKey,
+        prop: 'notes',
+        store: TODO_ITEMS_STORE,
+        value,
+        operation,
+      });
+
+      // Both clients start with "buy milk". Client A changes it to "buy oat milk" while client B changes it to "buy
+      // milk!" (i.e., the characters of the initial text have the set entry's time as their ID).
+      const setEntry = makeEntry(clientA, '0000', 'buy milk');
+      const charId = (index: number) => IDBSideSync.text.toCharId(setEntry.hlcTime, index);
+      const entries: OpLogEntry[] = [
+        setEntry,
+        makeEntry(clientA, '0001', { after: charId(3), text: 'oat ' }, 'insertText'),
+        makeEntry(clientB, '0001', { after: charId(7), text: '!' }, 'insertText'),
+        makeEntry(clientB, '0002', [charId(0), charId(1), charId(2)], 'deleteText'),
+        makeEntry(clientB, '0003', { after: null, text: 'get' }, 'insertText'),
+      ];
+
+      for (const entry of [...entries].reverse()) {
+        await IDBSideSync.applyOplogEntry(entry);
+      }
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        foundTodo = await IDBSideSync.utils.request(proxiedStore.get(objectKey));
+      });
+
+      expect(foundTodo).to.deep.equal({ id: objectKey, notes: 'get oat milk!' });
+    });
+  });
+
+  describe('onChange()', () => {
+    const remoteClientId = makeClientId();
+    let unsubscribe: () => void = () => undefined;
+
+    afterEach(() => {
+      unsubscribe();
+    });
+
+    it('is called after local changes are committed and remote entries are applied', async () => {
+      const calls: ObjectChange[][] = [];
+      unsubscribe = IDBSideSync.onChange((changes) => calls.push(changes), { stores: [TODO_ITEMS_STORE] });
+
+      await transaction([TODO_ITEMS_STORE, GLOBAL_SETTINGS_STORE], (proxiedTodosStore, proxiedSettingsStore) => {
+        proxiedTodosStore.put({ id: 1, name: 'buy cookies', done: false });
+        proxiedTodosStore.put({ id: 1, name: 'buy eggs' });
+        proxiedTodosStore.delete(2);
+        proxiedSettingsStore.put('dark', 'theme');
+      });
+      expect(calls).to.deep.equal([
+        [
+          { store: TODO_ITEMS_STORE, objectKey: 1, props: ['id', 'name', 'done'], source: 'local' },
+          { store: TODO_ITEMS_STORE, objectKey: 2, props: [''], source: 'local' },
+        ],
+      ]);
+
+      const remoteEntry: OpLogEntry = {
+        clientId: remoteClientId,
+        hlcTime: new HLTime(HLClock.time().millis() + 1, 0, remoteClientId).toString(),
+        objectKey: 1,
+        prop: 'done',
+        store: TODO_ITEMS_STORE,
+        value: true,
+      };
+      const staleEntry = { ...remoteEntry, hlcTime: `2021-01-24T13:23:14.203Z_0000_${remoteClientId}`, value: false };
+      await IDBSideSync.applyOplogEntries([remoteEntry, staleEntry]);
+      expect(calls[1]).to.deep.equal([{ store: TODO_ITEMS_STORE, objectKey: 1, props: ['done'], source: 'remote' }]);
+
+      // Nothing was applied, so the listener isn't called.
+      await IDBSideSync.applyOplogEntry(staleEntry);
+      // Changes to other stores are ignored, as are transactions that don't change anything.
+      await transaction([GLOBAL_SETTINGS_STORE], (proxiedStore) => {
+        proxiedStore.put('light', 'theme');
+      });
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.get(1);
+      });
+      expect(calls).to.have.length(2);
+
+      unsubscribe();
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, done: false });
+      });
+      expect(calls).to.have.length(2);
+    });
+  });
+
+  describe('change sets', () => {
+    const remoteClientId = makeClientId();
+
+    async function getOplogEntries(): Promise<OpLogEntry[]> {
+      let entries: OpLogEntry[] = [];
+      await transaction([], async (oplogStore) => {
+        entries = (await IDBSideSync.utils.request(oplogStore.getAll())) as OpLogEntry[];
+      });
+      return entries;
+    }
+
+    async function getTodo(key: number): Promise<unknown> {
+      let todo;
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        todo = await IDBSideSync.utils.request(proxiedStore.get(key));
+      });
+      return todo;
+    }
+
+    it('records the entries of a transaction as one change set', async () => {
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy cookies', done: false });
+        proxiedStore.delete(2);
+      });
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 3, name: 'buy eggs' });
+      });
+
+      const entries = await getOplogEntries();
+      expect(entries).to.have.length(6);
+      const [first, ...others] = entries.slice(0, 4);
+      expect(entries.slice(0, 4).every((entry) => entry.changeSetId === first.hlcTime)).to.equal(true);
+      expect(entries.slice(0, 4).map((entry) => entry.changeSetSize)).to.deep.equal([
+        undefined,
+        undefined,
+        undefined,
+        4,
+      ]);
+      expect(others.map((entry) => entry.prop)).to.deep.equal(['name', 'done', '']);
+      expect(entries.slice(4).map((entry) => [entry.changeSetId, entry.changeSetSize])).to.deep.equal([
+        [entries[4].hlcTime, undefined],
+        [entries[4].hlcTime, 2],
+      ]);
+    });
+
+    it('applies a change set only once all of its entries have been received', async () => {
+      const times = [1, 2, 3].map((i) => new HLTime(HLClock.time().millis() + i, 0, remoteClientId).toString());
+      const changeSet: OpLogEntry[] = [
+        { prop: 'id', value: 1 },
+        { prop: 'name', value: 'buy cookies' },
+        { prop: 'done', value: false, changeSetSize: 3 },
+      ].map((props, i) => ({
+        clientId: remoteClientId,
+        hlcTime: times[i],
+        objectKey: 1,
+        store: TODO_ITEMS_STORE,
+        changeSetId: times[0],
+        ...props,
+      }));
+
+      // The entries can be received in any order, and by separate calls.
+      const results = await IDBSideSync.applyOplogEntries([changeSet[2], changeSet[0]]);
+      expect(results.map((result) => result.status)).to.deep.equal(['pending', 'pending']);
+      expect(await getTodo(1)).to.be.undefined;
+      expect(await getOplogEntries()).to.have.length(0);
+
+      expect((await IDBSideSync.applyOplogEntry(changeSet[1])).status).to.equal('applied');
+      expect(await getTodo(1)).to.deep.equal({ id: 1, name: 'buy cookies', done: false });
+      expect((await getOplogEntries()).map((entry) => entry.hlcTime)).to.deep.equal(times);
+
+      // Receiving an entry again doesn't make it pending.
+      expect((await IDBSideSync.applyOplogEntry(changeSet[0])).status).to.equal('ignored');
+    });
+
+    it('deletes pending change sets that were recorded too long ago when the oplog is compacted', async () => {
+      const makeChangeSet = (millis: number): OpLogEntry[] => {
+        const times = [0, 1].map((i) => new HLTime(millis + i, 0, remoteClientId).toString());
+        return [
+          { objectKey: 1, prop: 'id', value: 1 },
+          { objectKey: 1, prop: 'name', value: 'buy cookies', changeSetSize: 2 },
+        ].map((props, i) => ({
+          clientId: remoteClientId,
+          hlcTime: times[i],
+          store: TODO_ITEMS_STORE,
+          changeSetId: times[0],
+          ...props,
+        }));
+      };
+      const day = 24 * 60 * 60 * 1000;
+      const oldChangeSet = makeChangeSet(Date.now() - 2 * day);
+      const recentChangeSet = makeChangeSet(Date.now() - day / 2);
+      const results = await IDBSideSync.applyOplogEntries([oldChangeSet[0], recentChangeSet[0]]);
+      expect(results.map((result) => result.status)).to.deep.equal(['pending', 'pending']);
+
+      expect(await IDBSideSync.compactOplog({ pendingChangeSetRetentionMsec: day })).to.equal(1);
+
+      // The rest of the deleted change set doesn't complete it anymore; the rest of the other one does.
+      expect((await IDBSideSync.applyOplogEntry(oldChangeSet[1])).status).to.equal('pending');
+      expect((await IDBSideSync.applyOplogEntry(recentChangeSet[1])).status).to.equal('applied');
+      expect(await getTodo(1)).to.deep.equal({ id: 1, name: 'buy cookies' });
+    });
+  });
+
+  describe('sync scope', () => {
+    beforeEach(async () => {
+      await IDBSideSync.init(await getDb(), {
+        syncedStores: [TODO_ITEMS_STORE, NOTES_STORE],
+        localOnlyProps: { [TODO_ITEMS_STORE]: ['lastOpenedAt', ['ui', 'scrollTop']] },
+      });
+    });
+
+    async function getOplogEntries(): Promise<OpLogEntry[]> {
+      let entries: OpLogEntry[] = [];
+      await transaction([], async (oplogStore) => {
+        entries = (await IDBSideSync.utils.request(oplogStore.getAll())) as OpLogEntry[];
+      });
+      return entries;
+    }
+
+    it(`doesn't record changes to stores and props that aren't synced`, async () => {
+      await transaction([TODO_ITEMS_STORE, GLOBAL_SETTINGS_STORE], (proxiedTodosStore, proxiedSettingsStore) => {
+        proxiedTodosStore.put({ id: 1, name: 'buy cookies', lastOpenedAt: 123, ui: { scrollTop: 5, expanded: true } });
+        proxiedSettingsStore.put('dark', 'theme');
+      });
+
+      const entries = await getOplogEntries();
+      expect(entries.map(({ store, prop, value }) => [store, prop, value])).to.deep.equal([
+        [TODO_ITEMS_STORE, 'id', 1],
+        [TODO_ITEMS_STORE, 'name', 'buy cookies'],
+        [TODO_ITEMS_STORE, 'ui', { expanded: true }],
+      ]);
+
+      // The objects themselves are saved as usual.
+      await transaction([TODO_ITEMS_STORE, GLOBAL_SETTINGS_STORE], async (todosStore, settingsStore) => {
+        expect(await IDBSideSync.utils.request(todosStore.get(1))).to.deep.equal({
+          id: 1,
+          name: 'buy cookies',
+          lastOpenedAt: 123,
+          ui: { scrollTop: 5, expanded: true },
+        });
+        expect(await IDBSideSync.utils.request(settingsStore.get('theme'))).to.equal('dark');
+      });
+    });
+
+    it(`adjusts the size of change sets whose entries aren't all synced anymore`, async () => {
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy cookies', done: false });
+      });
+      const entries = await getOplogEntries();
+      expect(entries.map(({ prop, changeSetSize }) => [prop, changeSetSize])).to.deep.equal([
+        ['id', undefined],
+        ['name', undefined],
+        ['done', 3],
+      ]);
+      expect(IDBSideSync.toSyncedEntries(entries)).to.deep.equal(entries);
+
+      await IDBSideSync.init(await getDb(), { localOnlyProps: { [TODO_ITEMS_STORE]: ['done'] } });
+      const syncedEntries = IDBSideSync.toSyncedEntries(entries);
+      expect(
+        syncedEntries.map(({ prop, changeSetId, changeSetSize }) => [prop, changeSetId, changeSetSize])
+      ).to.deep.equal([
+        ['id', entries[0].hlcTime, undefined],
+        ['name', entries[0].hlcTime, 2],
+      ]);
+      expect(entries[2].changeSetSize).to.equal(3);
+    });
+
+    it('re-links the hash chain when entries that were recorded earlier are brought in line with the options', async () => {
+      await IDBSideSync.init(await getDb());
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy cookies', ui: { scrollTop: 5, expanded: true } });
+      });
+      await transaction([GLOBAL_SETTINGS_STORE], (proxiedStore) => {
+        proxiedStore.put('dark', 'theme');
+      });
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 2, name: 'buy eggs' });
+      });
+
+      await IDBSideSync.init(await getDb(), {
+        syncedStores: [TODO_ITEMS_STORE],
+        localOnlyProps: { [TODO_ITEMS_STORE]: [['ui', 'scrollTop']] },
+      });
+      expect(await IDBSideSync.applySyncScope(null)).to.equal(2);
+
+      const entries = await getOplogEntries();
+      expect(entries.map(({ store, prop, value }) => [store, prop, value])).to.deep.equal([
+        [TODO_ITEMS_STORE, 'id', 1],
+        [TODO_ITEMS_STORE, 'name', 'buy cookies'],
+        [TODO_ITEMS_STORE, 'ui', { expanded: true }],
+        [TODO_ITEMS_STORE, 'id', 2],
+        [TODO_ITEMS_STORE, 'name', 'buy eggs'],
+      ]);
+      expect(await IDBSideSync.verifyOplog()).to.deep.equal([]);
+      // What another client does with the downloaded entries (see `sync()`).
+      expect(IDBSideSync.verifyEntryChain(entries, null)).to.deep.equal([]);
+      expect(await IDBSideSync.applySyncScope(null)).to.equal(0);
+    });
+
+    it(`ignores entries from other clients for stores and props that aren't synced`, async () => {
+      const remoteClientId = makeClientId();
+      let counter = 0;
+      const remoteEntry = (props: Partial<OpLogEntry>): OpLogEntry => ({
+        clientId: remoteClientId,
+        hlcTime: new HLTime(HLClock.time().millis() + 1, counter++, remoteClientId).toString(),
+        objectKey: 1,
+        prop: 'name',
+        store: TODO_ITEMS_STORE,
+        value: 'buy eggs',
+        ...props,
+      });
+      const results = await IDBSideSync.applyOplogEntries([
+        remoteEntry({}),
+        remoteEntry({ prop: 'lastOpenedAt', value: 456 }),
+        remoteEntry({ store: GLOBAL_SETTINGS_STORE, objectKey: 'theme', prop: '', value: 'light' }),
+      ]);
+      expect(results.map((result) => result.status)).to.deep.equal(['applied', 'ignored', 'ignored']);
+      expect(await getOplogEntries()).to.have.length(1);
+    });
+  });
+
+  describe('registerEntryValidator()', () => {
+    const remoteClientId = makeClientId();
+    let counter = 0;
+    const remoteEntry = (props: Partial<OpLogEntry>): OpLogEntry => ({
+      clientId: remoteClientId,
+      hlcTime: new HLTime(HLClock.time().millis() + 1, counter++, remoteClientId).toString(),
+      objectKey: 1,
+      prop: 'name',
+      store: TODO_ITEMS_STORE,
+      value: 'buy eggs',
+      ...props,
+    });
+
+    beforeEach(() => {
+      IDBSideSync.registerEntryValidator(
+        TODO_ITEMS_STORE,
+        (entry) => entry.prop !== 'priority' || typeof entry.value === 'number' || 'priority must be a number'
+      );
+    });
+
+    afterEach(() => {
+      IDBSideSync.unregisterEntryValidator(TODO_ITEMS_STORE);
+    });
+
+    it('rejects invalid entries from other clients instead of applying them', async () => {
+      const results = await IDBSideSync.applyOplogEntries([
+        remoteEntry({}),
+        remoteEntry({ prop: 'priority', value: {} }),
+        remoteEntry({ prop: 'priority', value: 2 }),
+      ]);
+      expect(results.map(({ status, reason }) => [status, reason])).to.deep.equal([
+        ['applied', undefined],
+        ['rejected', 'priority must be a number'],
+        ['applied', undefined],
+      ]);
+
+      const result = await IDBSideSync.applyOplogEntry(remoteEntry({ prop: 'priority', value: 'high' }));
+      expect(result.status).to.equal('rejected');
+
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        expect(await IDBSideSync.utils.request(proxiedStore.get(1))).to.deep.equal({
+          id: 1,
+          name: 'buy eggs',
+          priority: 2,
+        });
+      });
+    });
+
+    it("rejects the other entries of a rejected entry's change set", async () => {
+      const entries = [remoteEntry({ prop: 'id', value: 1 }), remoteEntry({ prop: 'priority', value: 'high' })];
+      entries.forEach((entry) => (entry.changeSetId = entries[0].hlcTime));
+      entries[1].changeSetSize = 2;
+
+      const results = await IDBSideSync.applyOplogEntries(entries);
+      expect(results.map(({ status }) => status)).to.deep.equal(['rejected', 'rejected']);
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        expect(await IDBSideSync.utils.request(proxiedStore.get(1))).to.be.undefined;
+      });
+    });
+  });
+
+  describe('registerMigration()', () => {
+    const MIGRATIONS_DB = 'migrations-db';
+    let migrationsDb: IDBDatabase | undefined;
+
+    function openMigrationsDb(version: number, onUpgrade: (openReq: IDBOpenDBRequest) => void): Promise<IDBDatabase> {
+      return new Promise((resolve, reject) => {
+        const openReq = indexedDB.open(MIGRATIONS_DB, version);
+        openReq.onerror = reject;
+        openReq.onsuccess = () => resolve(openReq.result);
+        openReq.onupgradeneeded = (event) => {
+          IDBSideSync.onupgradeneeded(event);
+          onUpgrade(openReq);
+        };
+      });
+    }
+
+    afterEach(async () => {
+      IDBSideSync.clearMigrations();
+      migrationsDb?.close();
+      await IDBSideSync.utils.request(indexedDB.deleteDatabase(MIGRATIONS_DB));
+    });
+
+    it('migrates oplog entries when the database is upgraded and translates entries from older clients', async () => {
+      migrationsDb = await openMigrationsDb(1, (openReq) =>
+        openReq.result.createObjectStore('todos', { keyPath: 'id' })
+      );
+      await IDBSideSync.init(migrationsDb);
+      const storeNames = [OPLOG_STORE, IDBSideSync.META_STORE, 'todos'];
+      await IDBSideSync.utils.transaction(
+        migrationsDb,
+        storeNames,
+        'readwrite',
+        async (_oplogStore, _metaStore, store) => {
+          IDBSideSync.proxyStore(store).put({ id: 1, name: 'buy cookies' });
+        }
+      );
+      migrationsDb.close();
+
+      IDBSideSync.registerMigration(2, { type: 'renameStore', from: 'todos', to: 'tasks' });
+      IDBSideSync.registerMigration(2, { type: 'renameProp', store: 'tasks', from: 'name', to: 'title' });
+      migrationsDb = await openMigrationsDb(2, (openReq) => {
+        // The app migrates its own stores.
+        const store = (openReq.transaction as IDBTransaction).objectStore('todos');
+        store.name = 'tasks';
+        store.put({ id: 1, title: 'buy cookies' });
+      });
+      await IDBSideSync.init(migrationsDb);
+
+      let entries: OpLogEntry[] = [];
+      await IDBSideSync.utils.transaction(migrationsDb, [OPLOG_STORE], 'readonly', async (oplogStore) => {
+        entries = (await IDBSideSync.utils.request(oplogStore.getAll())) as OpLogEntry[];
+      });
+      expect(entries.map(({ store, prop, schemaVersion }) => [store, prop, schemaVersion])).to.deep.equal([
+        ['tasks', 'id', 2],
+        ['tasks', 'title', 2],
+      ]);
+
+      // An entry from a client that's still using the old schema.
+      const remoteClientId = makeClientId();
+      const result = await IDBSideSync.applyOplogEntry({
+        clientId: remoteClientId,
+        hlcTime: new HLTime(HLClock.time().millis() + 1, 0, remoteClientId).toString(),
+        objectKey: 1,
+        prop: 'name',
+        store: 'todos',
+        value: 'buy eggs',
+        schemaVersion: 1,
+      });
+      expect(result.status).to.equal('applied');
+      expect(result.entry).to.include({ store: 'tasks', prop: 'title', schemaVersion: 2 });
+
+      let task;
+      await IDBSideSync.utils.transaction(migrationsDb, ['tasks'], 'readonly', async (store) => {
+        task = await IDBSideSync.utils.request(store.get(1));
+      });
+      expect(task).to.deep.equal({ id: 1, title: 'buy eggs' });
+    });
+
+    it('holds back entries from newer clients until the database has been upgraded', async () => {
+      migrationsDb = await openMigrationsDb(1, (openReq) =>
+        openReq.result.createObjectStore('todos', { keyPath: 'id' })
+      );
+      await IDBSideSync.init(migrationsDb);
+
+      // An entry from a client that's already using the new schema.
+      const remoteClientId = makeClientId();
+      const newerEntry: OpLogEntry = {
+        clientId: remoteClientId,
+        hlcTime: new HLTime(HLClock.time().millis() + 1, 0, remoteClientId).toString(),
+        objectKey: 1,
+        prop: '',
+        store: 'tasks',
+        value: { id: 1, title: 'buy eggs' },
+        schemaVersion: 2,
+      };
+      const result = await IDBSideSync.applyOplogEntry(newerEntry);
+      expect(result.status).to.equal('pending');
+
+      let entries: OpLogEntry[] = [];
+      await IDBSideSync.utils.transaction(migrationsDb, [OPLOG_STORE], 'readonly', async (oplogStore) => {
+        entries = (await IDBSideSync.utils.request(oplogStore.getAll())) as OpLogEntry[];
+      });
+      expect(entries).to.deep.equal([]);
+      migrationsDb.close();
+
+      IDBSideSync.registerMigration(2, { type: 'renameStore', from: 'todos', to: 'tasks' });
+      migrationsDb = await openMigrationsDb(2, (openReq) => {
+        const store = (openReq.transaction as IDBTransaction).objectStore('todos');
+        store.name = 'tasks';
+      });
+      await IDBSideSync.init(migrationsDb);
+
+      let task;
+      await IDBSideSync.utils.transaction(
+        migrationsDb,
+        [OPLOG_STORE, 'tasks'],
+        'readonly',
+        async (oplogStore, store) => {
+          entries = (await IDBSideSync.utils.request(oplogStore.getAll())) as OpLogEntry[];
+          task = await IDBSideSync.utils.request(store.get(1));
+        }
+      );
+      expect(entries.map((entry) => entry.hlcTime)).to.deep.equal([newerEntry.hlcTime]);
+      expect(task).to.deep.equal({ id: 1, title: 'buy eggs' });
+    });
+  });
+
+  describe('hash chains', () => {
+    async function getOplogEntries(): Promise<OpLogEntry[]> {
+      let entries: OpLogEntry[] = [];
+      await transaction([], async (oplogStore) => {
+        entries = (await IDBSideSync.utils.request(oplogStore.getAll())) as OpLogEntry[];
+      });
+      return entries;
+    }
+
+    async function addTodos() {
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy cookies', done: false });
+      });
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 2, name: 'buy eggs', done: false });
+        proxiedStore.put({ id: 1, name: 'buy milk', done: true });
+      });
+    }
+
+    it('links each recorded entry to the previous one', async () => {
+      await addTodos();
+
+      const entries = await getOplogEntries();
+      expect(entries).to.have.length(9);
+      entries.forEach((entry, i) => {
+        expect(entry.prevHash).to.equal(i === 0 ? null : entries[i - 1].hash);
+        expect(entry.hash).to.equal(IDBSideSync.hashOplogEntry(entry));
+      });
+      expect(await IDBSideSync.verifyOplog()).to.deep.equal([]);
+    });
+
+    it('reports modified and missing entries', async () => {
+      await addTodos();
+      const entries = await getOplogEntries();
+
+      await transaction([], async (oplogStore) => {
+        oplogStore.put({ ...entries[1], value: 'buy candy' });
+        oplogStore.delete(entries[4].hlcTime);
+      });
+
+      const issues = await IDBSideSync.verifyOplog();
+      expect(issues.map(({ type, entry }) => [type, entry.hlcTime])).to.deep.equal([
+        ['modified', entries[1].hlcTime],
+        ['gap', entries[5].hlcTime],
+      ]);
+    });
+
+    it(`doesn't report entries deleted by compaction as missing`, async () => {
+      await addTodos();
+      const numDeleted = await IDBSideSync.deleteSupersededEntries({
+        keepAfterTime: new Date(Date.now() + 1000),
+        protectedClientId: makeClientId(),
+        protectedAfterTime: null,
+      });
+      expect(numDeleted).to.equal(3);
+      expect(await IDBSideSync.verifyOplog()).to.deep.equal([]);
+    });
+  });
+
+  describe('broadcasting to other tabs', () => {
+    let channel: BroadcastChannel;
+
+    beforeEach(() => {
+      // A second channel with the same name in the same window receives the same messages that another tab would.
+      channel = new BroadcastChannel(IDBSideSync.BROADCAST_CHANNEL_NAME_PREFIX + TODOS_DB);
+    });
+
+    afterEach(() => {
+      channel.close();
+    });
+
+    it('broadcasts committed entries and saved settings', async () => {
+      const messages: unknown[] = [];
+      channel.onmessage = (event) => messages.push(event.data);
+
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy cookies' });
+      });
+      const settings = { ...IDBSideSync.getSettings(), syncProfiles: [] };
+      await IDBSideSync.saveSettings(settings);
+      await waitForAFew(100);
+
+      expect(messages).to.have.length(2);
+      expect(messages[0]).to.have.property('type', 'entries');
+      expect(messages[0]).to.have.property('source', 'local');
+      expect((messages[0] as { entries: OpLogEntry[] }).entries.map((entry) => entry.prop)).to.deep.equal([
+        'id',
+        'name',
+      ]);
+      expect(messages[1]).to.deep.equal({ type: 'settings', settings });
+    });
+
+    it('advances the clock and calls onChange() listeners when another tab broadcasts entries', async () => {
+      const { nodeId } = IDBSideSync.getSettings();
+      const entry: OpLogEntry = {
+        clientId: nodeId,
+        hlcTime: new HLTime(HLClock.time().millis() + 1000, 0, nodeId).toString(),
+        objectKey: 1,
+        prop: 'name',
+        store: TODO_ITEMS_STORE,
+        value: 'buy eggs',
+      };
+      const changesPromise = new Promise<ObjectChange[]>((resolve) => {
+        const unsubscribe = IDBSideSync.onChange((changes) => {
+          unsubscribe();
+          resolve(changes);
+        });
+      });
+      channel.postMessage({ type: 'entries', entries: [entry], source: 'local' });
+
+      expect(await changesPromise).to.deep.equal([
+        { store: TODO_ITEMS_STORE, objectKey: 1, props: ['name'], source: 'local' },
+      ]);
+      expect(HLClock.time().toString() > entry.hlcTime).to.equal(true);
+    });
+
+    it('updates the cached settings when another tab saves settings', async () => {
+      const settings = { ...IDBSideSync.getSettings(), syncProfiles: [] };
+      channel.postMessage({ type: 'settings', settings: { ...settings, nodeId: 'abc' } });
+      await waitForAFew(100);
+      expect(IDBSideSync.getSettings().nodeId).to.equal('abc');
+    });
+  });
+
+  describe('getFieldHistory() and getObjectHistory()', () => {
+    const remoteClientId = makeClientId();
+    const remoteEntry: OpLogEntry = {
+      clientId: remoteClientId,
+      hlcTime: new HLTime(Date.now() + 30000, 0, remoteClientId).toString(),
+      objectKey: 1,
+      prop: 'name',
+      store: TODO_ITEMS_STORE,
+      value: 'buy bread',
+    };
+
+    beforeEach(async () => {
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy cookies', done: false });
+        proxiedStore.put({ id: 2, name: 'buy milk', done: false });
+      });
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy eggs', done: true });
+      });
+      await IDBSideSync.applyOplogEntry(remoteEntry);
+    });
+
+    it('getFieldHistory() returns the entries for a prop, with their client ID and time', async () => {
+      const localClientId = IDBSideSync.getSettings().nodeId;
+      const history: IDBSideSync.HistoryEntry[] = [];
+      for await (const entry of IDBSideSync.getFieldHistory(TODO_ITEMS_STORE, 1, 'name')) {
+        history.push(entry);
+      }
+
+      expect(history.map(({ value }) => value)).to.deep.equal(['buy cookies', 'buy eggs', 'buy bread']);
+      expect(history.map(({ clientId }) => clientId)).to.deep.equal([localClientId, localClientId, remoteClientId]);
+      for (const entry of history) {
+        expect(entry.time).to.be.instanceOf(HLTime);
+        expect(entry.time.toString()).to.equal(entry.hlcTime);
+        expect(entry.time.node()).to.equal(entry.clientId);
+      }
+
+      const newestFirst: unknown[] = [];
+      for await (const { value } of IDBSideSync.getFieldHistory(TODO_ITEMS_STORE, 1, ['name'], { newestFirst: true })) {
+        newestFirst.push(value);
+      }
+      expect(newestFirst).to.deep.equal(['buy bread', 'buy eggs', 'buy cookies']);
+    });
+
+    it('getObjectHistory() returns the entries for every prop (and deletions) in order of time', async () => {
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.delete(1);
+      });
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.clear();
+      });
+
+      const history: IDBSideSync.HistoryEntry[] = [];
+      for await (const entry of IDBSideSync.getObjectHistory(TODO_ITEMS_STORE, 1)) {
+        history.push(entry);
+      }
+
+      expect(history.map(({ prop, operation }) => [prop, operation])).to.deep.equal([
+        ['id', undefined],
+        ['name', undefined],
+        ['done', undefined],
+        ['id', undefined],
+        ['name', undefined],
+        ['done', undefined],
+        ['name', undefined],
+        ['', 'delete'],
+        ['', 'clear'],
+      ]);
+      for (let i = 1; i < history.length; i++) {
+        assert.isTrue(history[i].hlcTime > history[i - 1].hlcTime, `entries are returned in order of HLC time`);
+      }
+      expect(history.every(({ objectKey }) => objectKey === 1 || Array.isArray(objectKey))).to.equal(true);
+    });
+  });
+
+  describe('getObjectVersion() and restoreObjectVersion()', () => {
+    let timeAfterAdd: HLTime;
+    let timeAfterUpdate: HLTime;
+    let timeAfterDelete: HLTime;
+
+    async function getTodo(): Promise<unknown> {
+      let todo;
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        todo = await IDBSideSync.utils.request(proxiedStore.get(1));
+      });
+      return todo;
+    }
+
+    beforeEach(async () => {
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.add({ id: 1, name: 'buy cookies', done: false });
+      });
+      timeAfterAdd = HLClock.time();
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy eggs', priority: 'high' });
+        (proxiedStore as IDBSideSync.ProxiedObjectStore).increment(1, 'quantity', 12);
+      });
+      timeAfterUpdate = HLClock.time();
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.delete(1);
+      });
+      timeAfterDelete = HLClock.time();
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy milk' });
+      });
+    });
+
+    it('getObjectVersion() returns what the object looked like at some time', async () => {
+      const getVersion = (time: HLTime | Date) => IDBSideSync.getObjectVersion(TODO_ITEMS_STORE, 1, time);
+
+      expect(await getVersion(new Date(0))).to.be.undefined;
+      expect(await getVersion(timeAfterAdd)).to.deep.equal({ id: 1, name: 'buy cookies', done: false });
+      expect(await getVersion(timeAfterUpdate)).to.deep.equal({
+        id: 1,
+        name: 'buy eggs',
+        done: false,
+        priority: 'high',
+        quantity: 12,
+      });
+      expect(await getVersion(timeAfterDelete)).to.be.undefined;
+      expect(await getVersion(HLClock.time())).to.deep.equal({ id: 1, name: 'buy milk' });
+      expect(await getVersion(new Date(Date.now() + 1000))).to.deep.equal(await getTodo());
+    });
+
+    it('restoreObjectVersion() records the changes needed to restore an old version', async () => {
+      let restored;
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        const store = proxiedStore as IDBSideSync.ProxiedObjectStore;
+        restored = await IDBSideSync.restoreObjectVersion(store, 1, timeAfterAdd);
+      });
+      expect(restored).to.deep.equal({ id: 1, name: 'buy cookies', done: false });
+      expect(await getTodo()).to.deep.equal(restored);
+
+      // Only the props that changed are recorded, since the current object doesn't have any props the version lacks.
+      let entries: OpLogEntry[] = [];
+      await transaction([], async (oplogStore) => {
+        entries = (await IDBSideSync.utils.request(oplogStore.getAll())) as OpLogEntry[];
+      });
+      const restoreEntries = entries.filter((entry) => entry.hlcTime > timeAfterDelete.toString()).slice(2);
+      expect(restoreEntries.map(({ prop, value }) => [prop, value])).to.deep.equal([
+        ['name', 'buy cookies'],
+        ['done', false],
+      ]);
+
+      // Restoring a version that has fewer props re-creates the object.
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, priority: 'low' });
+      });
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        await IDBSideSync.restoreObjectVersion(proxiedStore as IDBSideSync.ProxiedObjectStore, 1, timeAfterAdd);
+      });
+      expect(await getTodo()).to.deep.equal({ id: 1, name: 'buy cookies', done: false });
+      expect(await IDBSideSync.getObjectVersion(TODO_ITEMS_STORE, 1, HLClock.time())).to.deep.equal(await getTodo());
+
+      // Restoring a version in which the object didn't exist deletes it.
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        await IDBSideSync.restoreObjectVersion(proxiedStore as IDBSideSync.ProxiedObjectStore, 1, timeAfterDelete);
+      });
+      expect(await getTodo()).to.be.undefined;
+    });
+  });
+
+  describe('verifyStore() and rebuildStore()', () => {
+    async function getTodos(): Promise<unknown[]> {
+      let todos: unknown[] = [];
+      await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+        todos = (await IDBSideSync.utils.request(proxiedStore.getAll())) as unknown[];
+      });
+      return todos;
+    }
+
+    // Changes the store directly (i.e., without recording anything in the oplog), like a buggy app might.
+    async function corruptTodos() {
+      await resolveOnTxComplete([TODO_ITEMS_STORE], 'readwrite', async (todosStore) => {
+        todosStore.put({ id: 1, name: 'buy cookies', done: 'maybe' });
+        todosStore.delete(2);
+        todosStore.put({ id: 4, name: 'stray todo' });
+      });
+    }
+
+    beforeEach(async () => {
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.add({ id: 1, name: 'buy cookies', done: false });
+        proxiedStore.add({ id: 2, name: 'buy eggs', done: false });
+        proxiedStore.add({ id: 3, name: 'buy milk', done: false });
+      });
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 2, name: 'buy eggs', done: true });
+        proxiedStore.delete(3);
+      });
+    });
+
+    it('verifyStore() reports objects that disagree with the oplog', async () => {
+      expect(await IDBSideSync.verifyStore(TODO_ITEMS_STORE)).to.deep.equal([]);
+
+      await corruptTodos();
+      expect(await IDBSideSync.verifyStore(TODO_ITEMS_STORE)).to.deep.equal([
+        {
+          objectKey: 1,
+          expected: { id: 1, name: 'buy cookies', done: false },
+          actual: { id: 1, name: 'buy cookies', done: 'maybe' },
+        },
+        { objectKey: 2, expected: { id: 2, name: 'buy eggs', done: true }, actual: undefined },
+        { objectKey: 4, expected: undefined, actual: { id: 4, name: 'stray todo' } },
+      ]);
+    });
+
+    it('rebuildStore() re-creates the objects from the oplog', async () => {
+      await corruptTodos();
+      expect(await IDBSideSync.rebuildStore(TODO_ITEMS_STORE)).to.equal(2);
+      expect(await getTodos()).to.deep.equal([
+        { id: 1, name: 'buy cookies', done: false },
+        { id: 2, name: 'buy eggs', done: true },
+      ]);
+      expect(await IDBSideSync.verifyStore(TODO_ITEMS_STORE)).to.deep.equal([]);
+    });
+
+    it('rebuildStore() calls onChange() listeners for the objects that it changed', async () => {
+      await corruptTodos();
+      const calls: ObjectChange[][] = [];
+      const unsubscribe = IDBSideSync.onChange((changes) => calls.push(changes));
+      await IDBSideSync.rebuildStore(TODO_ITEMS_STORE);
+      unsubscribe();
+      expect(calls).to.deep.equal([
+        [
+          { store: TODO_ITEMS_STORE, objectKey: 1, props: [''], source: 'remote' },
+          { store: TODO_ITEMS_STORE, objectKey: 2, props: [''], source: 'remote' },
+          { store: TODO_ITEMS_STORE, objectKey: 4, props: [''], source: 'remote' },
+        ],
+      ]);
+    });
+
+    it('ignores and keeps the values of local-only props', async () => {
+      await IDBSideSync.init(await getDb(), { localOnlyProps: { [TODO_ITEMS_STORE]: ['lastOpenedAt'] } });
+      await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+        proxiedStore.put({ id: 1, name: 'buy candy', done: false, lastOpenedAt: 123 });
+      });
+      expect(await IDBSideSync.verifyStore(TODO_ITEMS_STORE)).to.deep.equal([]);
+
+      await IDBSideSync.rebuildStore(TODO_ITEMS_STORE);
+      expect((await getTodos())[0]).to.deep.equal({ id: 1, name: 'buy candy', done: false, lastOpenedAt: 123 });
+    });
+
+    it(`throws if the store isn't synced`, async () => {
+      await IDBSideSync.init(await getDb(), { syncedStores: [TODO_ITEMS_STORE] });
+      let caughtError;
+      try {
+        await IDBSideSync.rebuildStore(GLOBAL_SETTINGS_STORE);
+      } catch (error) {
+        caughtError = error;
+      }
+      expect(caughtError).to.be.instanceOf(Error);
+    });
   });
 
   describe('getMostRecentEntryForClient()', async () => {
@@ -0,0 +1,152 @@
+import { HLTime } from '../../src/HLTime';
+import * as IDBSideSync from '../../src/index';
+import { HLClock } from '../../src/index';
+import { makeClientId } from '../../src/utils';
+import { deleteDb, getDb, TODO_ITEMS_STORE, transaction } from './utils';
+
+context('sync', () => {
+  beforeEach(async () => {
+    await deleteDb();
+    const db = await getDb();
+    await IDBSideSync.init(db);
+  });
+
+  afterEach(async () => {
+    // See the db tests for why the db is closed after each test.
+    (await getDb())?.close();
+  });
+
+  /**
+   * Creates a plugin that serves `remoteEntries` as the entries of the clients that recorded them, and keeps the
+   * entries that are uploaded in `uploadedEntries`. Any of its methods can be replaced via `overrides`.
+   */
+  function makeMockPlugin(pluginId: string, remoteEntries: OpLogEntry[], overrides: Partial<SyncPlugin> = {}) {
+    const uploadedEntries: OpLogEntry[] = [];
+    const plugin: SyncPlugin = {
+      getPluginId: () => pluginId,
+      isLoaded: () => true,
+      load: async () => undefined,
+      isSignedIn: () => true,
+      signIn: async () => undefined,
+      signOut: () => undefined,
+      addSignInChangeListener: () => undefined,
+      getSettings: () => ({}),
+      setSettings: () => undefined,
+      // A plugin that hasn't uploaded anything yet doesn't have a time.
+      getMostRecentUploadedEntryTime: async () => (null as unknown) as Date,
+      getRemoteEntries: async function*({ clientId }) {
+        for (const entry of remoteEntries) {
+          if (entry.clientId === clientId) {
+            yield entry;
+          }
+        }
+      },
+      saveRemoteEntry: async ({ entry }) => {
+        uploadedEntries.push(entry);
+        return { numUploaded: 1 };
+      },
+      getRemoteClientRecords: async function*({ excludeClientIds = [] }) {
+        const clientIds = remoteEntries
+          .map((entry) => entry.clientId)
+          .filter((clientId, index, allClientIds) => allClientIds.indexOf(clientId) === index);
+        for (const clientId of clientIds) {
+          if (!excludeClientIds.includes(clientId)) {
+            yield { clientId, data: {} };
+          }
+        }
+      },
+      saveRemoteClientRecord: async () => undefined,
+      ...overrides,
+    };
+    return { plugin, uploadedEntries };
+  }
+
+  it('returns the result of syncing with each plugin', async () => {
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.put({ id: 1, name: 'buy cookies' });
+    });
+
+    const remoteClientId = makeClientId();
+    let counter = 0;
+    const remoteEntry = (props: Partial<OpLogEntry>, millis = HLClock.time().millis() + 1): OpLogEntry => ({
+      clientId: remoteClientId,
+      hlcTime: new HLTime(millis, counter++, remoteClientId).toString(),
+      objectKey: 1,
+      prop: 'name',
+      store: TODO_ITEMS_STORE,
+      value: null,
+      ...props,
+    });
+    const remoteEntries = [
+      // Older than the local client's entry for the same prop.
+      remoteEntry({ value: 'buy candy' }, Date.parse('2021-01-24T13:23:14.203Z')),
+      remoteEntry({ objectKey: 2, prop: '', value: { id: 2, name: 'buy eggs' } }),
+      // Not a valid OpLogEntry (it doesn't have a value).
+      remoteEntry({ value: undefined }),
+      // Not a valid object for the target store (i.e., it doesn't have an `id` property), so it can't be saved, which
+      // keeps the batch from being applied; the entries are then applied one at a time.
+      remoteEntry({ objectKey: 3, prop: '', value: 'buy bread' }),
+    ];
+    delete remoteEntries[2].value;
+
+    const mock1 = makeMockPlugin('mock-1', remoteEntries);
+    const mock2 = makeMockPlugin('mock-2', remoteEntries, {
+      getRemoteClientRecords: async function*() {
+        throw new Error('The server is unavailable');
+      },
+    });
+    await IDBSideSync.registerSyncPlugin(mock1.plugin);
+    await IDBSideSync.registerSyncPlugin(mock2.plugin);
+
+    const result = await IDBSideSync.sync();
+    const localEntries = [];
+    for await (const entry of IDBSideSync.getEntriesByClient(IDBSideSync.getSettings().nodeId)) {
+      localEntries.push(entry);
+    }
+    expect(localEntries).to.have.length(2);
+    expect(mock1.uploadedEntries).to.deep.equal(localEntries);
+    expect(mock2.uploadedEntries).to.deep.equal(localEntries);
+
+    expect(
+      result.plugins.map(({ pluginId, numUploaded, downloaded, integrityIssues, error }) => ({
+        pluginId,
+        numUploaded,
+        downloaded: downloaded.map(({ entry, status }) => ({ entry, status })),
+        integrityIssues,
+        error: error && error.message,
+      }))
+    ).to.deep.equal([
+      {
+        pluginId: 'mock-1',
+        numUploaded: 2,
+        downloaded: [
+          { entry: remoteEntries[0], status: 'ignored' },
+          { entry: remoteEntries[1], status: 'applied' },
+          { entry: remoteEntries[2], status: 'rejected' },
+          { entry: remoteEntries[3], status: 'rejected' },
+        ],
+        integrityIssues: [],
+        error: undefined,
+      },
+      {
+        pluginId: 'mock-2',
+        numUploaded: 2,
+        downloaded: [],
+        integrityIssues: [],
+        error: 'The server is unavailable',
+      },
+    ]);
+    result.plugins[0].downloaded
+      .filter(({ status }) => status !== 'applied')
+      .forEach(({ reason }) => expect(reason).to.be.a('string').and.not.be.empty);
+
+    let todos;
+    await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+      todos = await IDBSideSync.utils.request(proxiedStore.getAll());
+    });
+    expect(todos).to.deep.equal([
+      { id: 1, name: 'buy cookies' },
+      { id: 2, name: 'buy eggs' },
+    ]);
+  });
+});
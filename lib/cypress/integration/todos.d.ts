@@ -9,3 +9,8 @@ interface ScopedSetting {
   name: string;
   [k: string]: unknown;
 }
+
+interface Note {
+  meta: { id: string; [k: string]: unknown };
+  [k: string]: unknown;
+}
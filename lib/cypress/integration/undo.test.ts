@@ -0,0 +1,187 @@
+import { HLTime } from '../../src/HLTime';
+import * as IDBSideSync from '../../src/index';
+import { HLClock } from '../../src/index';
+import { makeClientId } from '../../src/utils';
+import { deleteDb, getDb, GLOBAL_SETTINGS_STORE, TODO_ITEMS_STORE, transaction } from './utils';
+
+context('UndoManager', () => {
+  let undoManager: IDBSideSync.UndoManager;
+
+  beforeEach(async () => {
+    await deleteDb();
+    const db = await getDb();
+    await IDBSideSync.init(db);
+    undoManager = new IDBSideSync.UndoManager({ stores: [TODO_ITEMS_STORE] });
+  });
+
+  afterEach(async () => {
+    undoManager.stop();
+    // See the db tests for why the db is closed after each test.
+    (await getDb())?.close();
+  });
+
+  async function getTodo(key: number): Promise<unknown> {
+    let todo;
+    await transaction([TODO_ITEMS_STORE], async (proxiedStore) => {
+      todo = await IDBSideSync.utils.request(proxiedStore.get(key));
+    });
+    return todo;
+  }
+
+  function remoteEntry(props: Partial<OpLogEntry>): OpLogEntry {
+    const clientId = makeClientId();
+    return {
+      clientId,
+      hlcTime: new HLTime(HLClock.time().millis() + 1, 0, clientId).toString(),
+      objectKey: 1,
+      prop: 'name',
+      store: TODO_ITEMS_STORE,
+      value: null,
+      ...props,
+    };
+  }
+
+  it('undoes and redoes the changes made in a transaction', async () => {
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.add({ id: 1, name: 'buy cookies', done: false });
+    });
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.put({ id: 1, name: 'buy eggs', done: true });
+      proxiedStore.put({ id: 2, name: 'buy milk', done: false });
+    });
+    expect(undoManager.canUndo()).to.equal(true);
+    expect(undoManager.canRedo()).to.equal(false);
+
+    expect(await undoManager.undo()).to.equal(true);
+    expect(await getTodo(1)).to.deep.equal({ id: 1, name: 'buy cookies', done: false });
+    expect(await getTodo(2)).to.be.undefined;
+    expect(undoManager.canRedo()).to.equal(true);
+
+    expect(await undoManager.redo()).to.equal(true);
+    expect(await getTodo(1)).to.deep.equal({ id: 1, name: 'buy eggs', done: true });
+    expect(await getTodo(2)).to.deep.equal({ id: 2, name: 'buy milk', done: false });
+
+    // Undo everything (including the redo).
+    expect(await undoManager.undo()).to.equal(true);
+    expect(await undoManager.undo()).to.equal(true);
+    expect(await undoManager.undo()).to.equal(false);
+    expect(await getTodo(1)).to.be.undefined;
+  });
+
+  it(`doesn't treat the entries recorded by an undo or redo as a new change`, async () => {
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.add({ id: 1, name: 'buy cookies', done: false });
+    });
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.put({ id: 1, name: 'buy eggs', done: false });
+    });
+
+    // If the undo's entries were mistaken for a new change, the redo stack would be empty and the undo itself would
+    // be the next thing to undo.
+    expect(await undoManager.undo()).to.equal(true);
+    expect(undoManager.canRedo()).to.equal(true);
+    expect(await undoManager.undo()).to.equal(true);
+    expect(await getTodo(1)).to.be.undefined;
+    expect(undoManager.canUndo()).to.equal(false);
+
+    expect(await undoManager.redo()).to.equal(true);
+    expect(await getTodo(1)).to.deep.equal({ id: 1, name: 'buy cookies', done: false });
+    expect(undoManager.canRedo()).to.equal(true);
+    expect(await undoManager.redo()).to.equal(true);
+    expect(await getTodo(1)).to.deep.equal({ id: 1, name: 'buy eggs', done: false });
+    expect(undoManager.canRedo()).to.equal(false);
+
+    expect(await undoManager.undo()).to.equal(true);
+    expect(await getTodo(1)).to.deep.equal({ id: 1, name: 'buy cookies', done: false });
+  });
+
+  it('records the undo as oplog entries', async () => {
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.add({ id: 1, name: 'buy cookies', done: false });
+    });
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.put({ id: 1, name: 'buy eggs' });
+    });
+    const timeBeforeUndo = HLClock.time().toString();
+    await undoManager.undo();
+
+    let entries: OpLogEntry[] = [];
+    await transaction([], async (oplogStore) => {
+      entries = (await IDBSideSync.utils.request(oplogStore.getAll())) as OpLogEntry[];
+    });
+    const undoEntries = entries.filter((entry) => entry.hlcTime > timeBeforeUndo);
+    expect(undoEntries.map(({ prop, value }) => [prop, value])).to.deep.equal([
+      ['id', 1],
+      ['name', 'buy cookies'],
+    ]);
+  });
+
+  it('re-creates deleted objects', async () => {
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.add({ id: 1, name: 'buy cookies', done: false });
+    });
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.delete(1);
+    });
+    await undoManager.undo();
+    expect(await getTodo(1)).to.deep.equal({ id: 1, name: 'buy cookies', done: false });
+  });
+
+  it('reverts increments without losing increments made by other clients', async () => {
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.add({ id: 1, name: 'buy cookies', quantity: 1 });
+    });
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      (proxiedStore as IDBSideSync.ProxiedObjectStore).increment(1, 'quantity', 5);
+    });
+    await IDBSideSync.applyOplogEntry(remoteEntry({ prop: 'quantity', value: 2, operation: 'increment' }));
+
+    await undoManager.undo();
+    expect(await getTodo(1)).to.deep.equal({ id: 1, name: 'buy cookies', quantity: 3 });
+  });
+
+  it("doesn't revert props that were changed afterwards by other clients", async () => {
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.add({ id: 1, name: 'buy cookies', done: false });
+    });
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.put({ id: 1, name: 'buy eggs', done: true });
+    });
+    await IDBSideSync.applyOplogEntry(remoteEntry({ value: 'buy milk' }));
+
+    await undoManager.undo();
+    expect(await getTodo(1)).to.deep.equal({ id: 1, name: 'buy milk', done: false });
+  });
+
+  it("doesn't revert changes to objects that were deleted afterwards by other clients", async () => {
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.add({ id: 1, name: 'buy cookies', done: false });
+    });
+    await IDBSideSync.applyOplogEntry(remoteEntry({ prop: '', operation: 'delete' }));
+
+    await undoManager.undo();
+    expect(await getTodo(1)).to.be.undefined;
+    expect(undoManager.canRedo()).to.equal(false);
+  });
+
+  it('only keeps track of changes to the specified stores, and clears the redo stack after new changes', async () => {
+    await transaction([GLOBAL_SETTINGS_STORE], (proxiedStore) => {
+      proxiedStore.put('dark', 'theme');
+    });
+    expect(undoManager.canUndo()).to.equal(false);
+
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.add({ id: 1, name: 'buy cookies', done: false });
+    });
+    await undoManager.undo();
+    expect(undoManager.canRedo()).to.equal(true);
+
+    await transaction([TODO_ITEMS_STORE], (proxiedStore) => {
+      proxiedStore.add({ id: 2, name: 'buy eggs', done: false });
+    });
+    expect(undoManager.canRedo()).to.equal(false);
+
+    undoManager.clear();
+    expect(undoManager.canUndo()).to.equal(false);
+  });
+});
@@ -5,6 +5,8 @@ export const TODOS_DB = 'todos-db';
 export const TODO_ITEMS_STORE = 'todos-store';
 export const SCOPED_SETTINGS_STORE = 'scoped-settings-store';
 export const GLOBAL_SETTINGS_STORE = 'global-settings-store';
+export const TODO_ITEMS_BY_NAME_INDEX = 'todos-by-name';
+export const NOTES_STORE = 'notes-store';
 let dbPromise: Promise<IDBDatabase> | null = null;
 
 /**
@@ -58,10 +60,12 @@ export function getDb(): Promise<IDBDatabase> {
       openreq.onupgradeneeded = (event) => {
         const db = openreq.result;
         IDBSideSync.onupgradeneeded(event);
-        db.createObjectStore(TODO_ITEMS_STORE, { keyPath: 'id' }); // For testing store with simple one-prop keyPath
+        const todosStore = db.createObjectStore(TODO_ITEMS_STORE, { keyPath: 'id' }); // Tests simple one-prop keyPath
+        todosStore.createIndex(TODO_ITEMS_BY_NAME_INDEX, 'name'); // Tests cursors opened via an index
         // Tests store with compound keyPath
         db.createObjectStore(SCOPED_SETTINGS_STORE, { keyPath: ['scope', 'name'] });
         db.createObjectStore(GLOBAL_SETTINGS_STORE); // Tests store without any keyPath
+        db.createObjectStore(NOTES_STORE, { keyPath: 'meta.id' }); // Tests store with nested keyPath
       };
     });
   }
@@ -70,14 +74,19 @@ export function getDb(): Promise<IDBDatabase> {
 
 /**
  * A convenience function that works the same as resolveOnTxComplete() but automatically includes the OpLog store
- * in the transaction and ensures that it is passed as the first argument to the callback.
+ * in the transaction and ensures that it is passed as the first argument to the callback. The optional `proxyOptions`
+ * are passed to `proxyStore()` for each of the stores.
  */
-export async function transaction(storeNames: string[], callback: (...stores: IDBObjectStore[]) => unknown) {
+export async function transaction(
+  storeNames: string[],
+  callback: (...stores: IDBObjectStore[]) => unknown,
+  proxyOptions?: IDBSideSync.IDBObjectStoreProxyOptions
+) {
   return resolveOnTxComplete(
-    [IDBSideSync.OPLOG_STORE, ...storeNames],
+    [IDBSideSync.OPLOG_STORE, IDBSideSync.META_STORE, ...storeNames],
     'readwrite',
-    async (oplogStore, ...otherStores) => {
-      const proxiedStores = otherStores.map((store) => IDBSideSync.proxyStore(store));
+    async (oplogStore, metaStore, ...otherStores) => {
+      const proxiedStores = otherStores.map((store) => IDBSideSync.proxyStore(store, proxyOptions));
       await callback(...proxiedStores, oplogStore);
     }
   );
@@ -0,0 +1,70 @@
+import { IDBObjectStoreProxy } from './IDBObjectStoreProxy';
+import { getKeyPathValue, libName } from './utils';
+
+/**
+ * Use this function to ensure that cursors resulting from calls to `openCursor()` on a proxied object store (or one of
+ * its indexes) record oplog entries when `cursor.update()` or `cursor.delete()` is called.
+ *
+ * Unlike the other proxies, the cursor object itself isn't wrapped in a `Proxy`. Upstream developers typically get the
+ * cursor via `event.target.result` in their `onsuccess` handler, and `event.target` is always the original request
+ * (not a proxy of it). Instead, a 'success' listener is added to the request that "patches" the `update()` and
+ * `delete()` methods of the cursor instance. Since the listener is added before the request is returned, it's
+ * guaranteed to run before any upstream handlers. Also note that the same cursor instance is returned each time the
+ * cursor is advanced, so it only needs to be patched once.
+ */
+export function proxyCursorRequest(
+  target: IDBRequest<IDBCursorWithValue | null>,
+  storeProxy: IDBObjectStoreProxy
+): IDBRequest<IDBCursorWithValue | null> {
+  let patchedCursor: IDBCursorWithValue | null = null;
+
+  target.addEventListener('success', () => {
+    const cursor = target.result;
+    if (cursor && cursor !== patchedCursor) {
+      patchCursor(cursor, storeProxy);
+      patchedCursor = cursor;
+    }
+  });
+
+  return target;
+}
+
+function patchCursor(cursor: IDBCursorWithValue, storeProxy: IDBObjectStoreProxy) {
+  const store = storeProxy.target;
+
+  cursor.update = (value: any): IDBRequest<IDBValidKey> => {
+    if (store.keyPath) {
+      // Calling `cursor.update()` with an object whose key differs from the cursor's current primary key isn't allowed
+      // (the browser would throw a DataError). Since we're going to call `put()` instead, we need to check this here.
+      let valueKey: IDBValidKey | undefined;
+      if (Array.isArray(store.keyPath)) {
+        const keyProps = store.keyPath.map((keyProp) => getKeyPathValue(value, keyProp));
+        valueKey = keyProps.every((keyProp) => keyProp !== undefined) ? (keyProps as IDBValidKey) : undefined;
+      } else {
+        valueKey = getKeyPathValue(value, store.keyPath) as IDBValidKey | undefined;
+      }
+
+      if (valueKey !== undefined && indexedDB.cmp(valueKey, cursor.primaryKey) !== 0) {
+        throw new CursorKeyMismatchError(store.name);
+      }
+    }
+
+    // Updating the object via the proxied `put()` ensures that the update is recorded in the oplog and treated exactly
+    // like any other put (e.g., the new value is merged with the existing object).
+    return storeProxy.proxiedPut(value, cursor.primaryKey);
+  };
+
+  cursor.delete = (): IDBRequest<undefined> => {
+    return storeProxy.proxiedDelete(cursor.primaryKey);
+  };
+}
+
+export class CursorKeyMismatchError extends Error {
+  constructor(storeName: string) {
+    super(
+      `${libName}: The object passed to cursor.update() on "${storeName}" has key properties that don't match the ` +
+        `primary key of the cursor's current object.`
+    );
+    Object.setPrototypeOf(this, CursorKeyMismatchError.prototype); // https://git.io/vHLlu
+  }
+}
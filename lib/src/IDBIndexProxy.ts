@@ -0,0 +1,41 @@
+import { proxyCursorRequest } from './IDBCursorProxy';
+import { IDBObjectStoreProxy } from './IDBObjectStoreProxy';
+
+export function proxyIndex(target: IDBIndex, storeProxy: IDBObjectStoreProxy): IDBIndex {
+  const proxy = new IDBIndexProxy(target, storeProxy);
+  return new Proxy(target, proxy);
+}
+
+/**
+ * Use this class as a proxy/wrapper for IDBIndex objects resulting from calls to `index()` on a proxied object store.
+ * The only thing it really needs to do is ensure that cursors opened via the index are proxied as well (i.e., so that
+ * calls to `cursor.update()` and `cursor.delete()` are recorded in the oplog).
+ */
+export class IDBIndexProxy {
+  target: IDBIndex;
+  storeProxy: IDBObjectStoreProxy;
+
+  constructor(target: IDBIndex, storeProxy: IDBObjectStoreProxy) {
+    this.target = target;
+    this.storeProxy = storeProxy;
+  }
+
+  get = (target: IDBIndex, prop: keyof IDBIndex) => {
+    if (prop === 'openCursor') {
+      return this.proxiedOpenCursor;
+    }
+
+    const value = target[prop];
+    if (value !== null && typeof value === 'function') {
+      return value.bind(target);
+    }
+
+    // As with IDBUpsertRequestProxy, we're intentionally not using `Reflect.get(target, prop, receiver)` here since
+    // Chrome throws "TypeError: Illegal invocation" when an IDBIndex getter is invoked with a Proxy as the receiver.
+    return value;
+  };
+
+  proxiedOpenCursor = (...args: Parameters<IDBIndex['openCursor']>): ReturnType<IDBIndex['openCursor']> => {
+    return proxyCursorRequest(this.target.openCursor(...args), this.storeProxy);
+  };
+}
@@ -1,47 +1,153 @@
-import { STORE_NAME } from './db';
+import {
+  addRecordedEntries,
+  addToOplogChain,
+  addToOplogMerkle,
+  findCollectionEntries,
+  objectEntriesRange,
+  OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME,
+  propEntriesRange,
+  setKeyPathProps,
+  STORE_CLEAR_OBJECT_KEY,
+  STORE_NAME,
+  toSyncedEntry,
+} from './db';
 import { HLClock } from './HLClock';
+import { proxyCursorRequest } from './IDBCursorProxy';
+import { proxyIndex } from './IDBIndexProxy';
 import { proxyPutRequest } from './IDBUpsertRequestProxy';
-import { libName } from './utils';
+import { findWinningEntry, hasConflictResolvers } from './resolvers';
+import * as text from './text';
+import {
+  addElementValue,
+  flattenObject,
+  fromPropPath,
+  getKeyPathValue,
+  getPathValue,
+  incrementValue,
+  isElementRemoval,
+  isSupportedObjectKey,
+  libName,
+  removeElementValue,
+  setKeyPathValue,
+  setPathValue,
+  throwIfInvalidOpLogEntry,
+  toPropPath,
+} from './utils';
+
+export interface IDBObjectStoreProxyOptions {
+  /**
+   * If true, nested plain objects are "flattened" when recording oplog entries (i.e., one entry is recorded for each
+   * leaf value, with a `prop` such as `['theme', 'color']`, instead of one entry per top-level prop). This allows
+   * changes made to different nested props of the same object on different clients to be merged. Note that `put()`
+   * also merges nested objects with the existing object when this is enabled, so that the local result is the same as
+   * what other clients will end up with when they apply the oplog entries.
+   */
+  flattenNestedObjects?: boolean;
+}
+
+/**
+ * An object store returned by `proxyStore()`. In addition to the standard IDBObjectStore methods, it has methods for
+ * changing "counter" props (see the `increment` OpLogEntryOperation), "set" props (i.e., arrays of unique elements;
+ * see the `addElement` OpLogEntryOperation), and "text" props (see the `insertText` OpLogEntryOperation). Unlike calling
+ * `put()` with a new value, changes made to a counter, set, or text on different clients at the same time are all
+ * preserved.
+ */
+export interface ProxiedObjectStore extends IDBObjectStore {
+  /**
+   * Increments the numeric value of a prop (e.g., `'quantity'` or `['stats', 'views']`) of the object with the specified
+   * key by `amount` (defaults to 1). If the object or prop doesn't exist yet, the prop's value is assumed to be 0.
+   */
+  increment(key: IDBValidKey, prop: string | string[], amount?: number): void;
 
-export function proxyStore(target: IDBObjectStore): IDBObjectStore {
+  /**
+   * Same as `increment()`, except that the prop's value is decremented by `amount`.
+   */
+  decrement(key: IDBValidKey, prop: string | string[], amount?: number): void;
+
+  /**
+   * Adds an element to the array value of a prop of the object with the specified key, unless it already contains the
+   * element. If the object or prop doesn't exist yet, the prop's value is assumed to be an empty array. Elements are
+   * compared by their JSON representation.
+   */
+  addElement(key: IDBValidKey, prop: string | string[], element: unknown): void;
+
+  /**
+   * Removes an element from the array value of a prop of the object with the specified key. Note that this only removes
+   * the additions of the element that this client knows about; if another client adds the same element at the same
+   * time, the element is kept.
+   */
+  removeElement(key: IDBValidKey, prop: string | string[], element: unknown): void;
+
+  /**
+   * Changes the string value of a prop of the object with the specified key by deleting `splice.deleteCount`
+   * characters, starting at `splice.index`, and inserting `splice.insert` in their place. Unlike calling `put()` with
+   * the new text, changes made to different parts of the text on different clients at the same time are all preserved
+   * (see the `insertText` OpLogEntryOperation). If the object or prop doesn't exist yet, the text is assumed to be empty.
+   */
+  spliceText(key: IDBValidKey, prop: string | string[], splice: TextSplice): void;
+
+  /**
+   * Same as `spliceText()`, except that the splice is derived from the difference between the prop's current text and
+   * `newText` (see `text.diff()`). This is convenient when the new text comes from, say, a `<textarea>`.
+   */
+  updateText(key: IDBValidKey, prop: string | string[], newText: string): void;
+}
+
+export function proxyStore(target: IDBObjectStore, options: IDBObjectStoreProxyOptions = {}): ProxiedObjectStore {
   const storeNames = target.transaction.objectStoreNames;
   if (storeNames && !storeNames.contains(STORE_NAME.OPLOG)) {
     throw new Error(`Transaction was opened without including ${libName}.OPLOG_STORE as one of the stores.`);
   }
-  const proxy = new IDBObjectStoreProxy(target);
-  return new Proxy(target, proxy);
+  const proxy = new IDBObjectStoreProxy(target, options);
+  return new Proxy(target, proxy) as ProxiedObjectStore;
 }
 
+// Updates that haven't been applied yet, for each (transaction-specific) object store; see `updateObjectLater()`.
+const pendingUpdates = new WeakMap<IDBObjectStore, (() => void)[]>();
+
+// The change set of each transaction in which oplog entries have been recorded; see `addOplogEntries()`.
+const changeSets = new WeakMap<IDBTransaction, { id: string; size: number; lastEntry: OpLogEntry }>();
+
 export class IDBObjectStoreProxy {
   target: IDBObjectStore;
+  options: IDBObjectStoreProxyOptions;
 
-  constructor(target: IDBObjectStore) {
+  constructor(target: IDBObjectStore, options: IDBObjectStoreProxyOptions = {}) {
     if (target.autoIncrement) {
       // If the store has autoIncrement enabled, then it's possible for different nodes to create objects with the same
       // keys. In that scenario, there's no safe way to share and apply oplog entries (i.e., CRDT messages) since they
       // might describe mutations that _appear_ to be relevant to the same object but actually could refer to different
       // objects that have the same key/ID.
       throw new Error(`${libName} can't work with object stores whose .autoIncrement property is set to true.`);
-    } else if (target.keyPath) {
-      for (const keyPath of Array.isArray(target.keyPath) ? target.keyPath : [target.keyPath]) {
-        if (keyPath.includes('.')) {
-          throw new Error(
-            `${libName} doesn't support stores with a nested keyPath values (i.e., keyPath with dot-notation strings)`
-          );
-        }
-      }
     }
 
     this.target = target;
+    this.options = options;
   }
 
-  get(target: IDBObjectStore, prop: keyof IDBObjectStore, receiver: unknown) {
+  get(target: IDBObjectStore, prop: keyof ProxiedObjectStore, receiver: unknown) {
     this.target = target;
 
     if (prop === 'add') {
       return this.proxiedAdd;
     } else if (prop === 'put') {
       return this.proxiedPut;
+    } else if (prop === 'delete') {
+      return this.proxiedDelete;
+    } else if (prop === 'clear') {
+      return this.proxiedClear;
+    } else if (prop === 'increment') {
+      return this.proxiedIncrement;
+    } else if (prop === 'decrement') {
+      return this.proxiedDecrement;
+    } else if (prop === 'addElement') {
+      return this.proxiedAddElement;
+    } else if (prop === 'removeElement') {
+      return this.proxiedRemoveElement;
+    } else if (prop === 'spliceText') {
+      return this.proxiedSpliceText;
+    } else if (prop === 'updateText') {
+      return this.proxiedUpdateText;
     } else if (prop === 'get') {
       // We have explicitly bind some fcn properties to the target before returning them to prevent some weird errors
       return this.target.get.bind(this.target);
@@ -49,8 +155,9 @@ export class IDBObjectStoreProxy {
       // We have explicitly bind some fcn properties to the target before returning them to prevent some weird errors
       return this.target.getAll.bind(this.target);
     } else if (prop === 'index') {
-      // We have explicitly bind some fcn properties to the target before returning them to prevent some weird errors
-      return this.target.index.bind(this.target);
+      return this.proxiedIndex;
+    } else if (prop === 'openCursor') {
+      return this.proxiedOpenCursor;
     }
 
     return Reflect.get(target, prop, receiver);
@@ -80,14 +187,54 @@ export class IDBObjectStoreProxy {
       throw new MissingKeyParamError('put');
     }
 
+    let newEntries: OpLogEntry[];
     try {
-      this.recordOperation(value, key);
+      newEntries = this.recordOperation(value, key);
     } catch (error) {
       this.target.transaction.abort();
       throw error;
     }
 
+    let tempValue = value;
+
+    // Ensure that the object has all the properties it needs, per the store's `keyPath`. If it doesn't, try to get
+    // them from the `key` arg.
+    if (keyPath) {
+      tempValue = { ...value };
+      if (Array.isArray(keyPath)) {
+        for (let i = 0; i < keyPath.length; i++) {
+          const keyProp = keyPath[i];
+          if (getKeyPathValue(tempValue, keyProp) === undefined) {
+            if (!key) {
+              throw new PutWithoutKeyError(this.target);
+            } else if (!Array.isArray(key)) {
+              throw new Error(`${libName}: The key passed to "${this.target.name}.put(obj, key)" should be an array.`);
+            }
+            setKeyPathValue(tempValue, keyProp, key[i]);
+          }
+        }
+      } else if (getKeyPathValue(tempValue, keyPath) === undefined) {
+        if (!key) {
+          throw new PutWithoutKeyError(this.target);
+        }
+        setKeyPathValue(tempValue, keyPath, key);
+      }
+    }
+
     const existingObjKey = resolveKey(this.target, value, key);
+
+    // If a conflict resolver other than last-writer-wins applies to the store (see `registerConflictResolver()`), new
+    // values don't necessarily win against existing ones. The object's oplog entries are needed to find out.
+    let existingEntriesReqs: IDBRequest<OpLogEntry[]>[] = [];
+    if (hasConflictResolvers(this.target.name)) {
+      const oplogStore = this.target.transaction.objectStore(STORE_NAME.OPLOG);
+      const oplogIndex = oplogStore.index(OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME);
+      existingEntriesReqs = [
+        oplogIndex.getAll(objectEntriesRange(this.target.name, existingObjKey)),
+        oplogIndex.getAll(propEntriesRange(this.target.name, STORE_CLEAR_OBJECT_KEY, '')),
+      ];
+    }
+
     const existingObjReq = this.target.get(existingObjKey);
 
     let tempPutCompleted = false;
@@ -101,11 +248,35 @@ export class IDBObjectStoreProxy {
       // on a proxied object store. In other words, it's assumed that when an application calls `store.put()`, the
       // passed-in value is most recent known value at that point in time--there is no need to check for a newer value.
       // The concern with ensuring that an "old" oplog entry is not used to set a value when a NEWER oplog entry for the
-      // same field exists only applies to syncing.
-      const resolvedValue =
-        value && typeof value === 'object' && existingObjReq.result && typeof existingObjReq.result === 'object'
-          ? { ...existingObjReq.result, ...value } // "Merge" the new object with the existing object
-          : value;
+      // same field exists only applies to syncing. (The exception is when a conflict resolver other than
+      // last-writer-wins applies; see below.)
+      //
+      // Also note that `tempValue` is used (instead of `value`) since it's guaranteed to have the props required by the
+      // store's keyPath. This matters for nested keyPaths (e.g., if the keyPath is `meta.id` and `value` is
+      // `{ meta: { foo: 1 } }`, merging `value` would overwrite the existing `meta` object--and the key along with it).
+      let resolvedValue = tempValue;
+      if (
+        tempValue &&
+        typeof tempValue === 'object' &&
+        existingObjReq.result &&
+        typeof existingObjReq.result === 'object'
+      ) {
+        if (this.options.flattenNestedObjects) {
+          // "Merge" the new object with the existing object at the leaf level, exactly like the oplog entries will be
+          // applied on other clients.
+          resolvedValue = { ...existingObjReq.result };
+          for (const { path, value: leafValue } of flattenObject(tempValue)) {
+            setPathValue(resolvedValue, path, leafValue);
+          }
+        } else {
+          resolvedValue = { ...existingObjReq.result, ...tempValue }; // "Merge" the new object with the existing object
+        }
+      }
+
+      if (existingEntriesReqs.length > 0 && existingObjReq.result !== undefined) {
+        const existingEntries = existingEntriesReqs.reduce<OpLogEntry[]>((all, req) => all.concat(req.result), []);
+        resolvedValue = keepWinningValues(resolvedValue, newEntries, existingEntries);
+      }
 
       try {
         const mergedPutReq = keyPath ? this.target.put(resolvedValue) : this.target.put(resolvedValue, key);
@@ -122,32 +293,6 @@ export class IDBObjectStoreProxy {
       }
     };
 
-    let tempValue = value;
-
-    // Ensure that the object has all the properties it needs, per the store's `keyPath`. If it doesn't, try to get
-    // them from the `key` arg.
-    if (keyPath) {
-      tempValue = { ...value };
-      if (Array.isArray(keyPath)) {
-        for (let i = 0; i < keyPath.length; i++) {
-          const keyProp = keyPath[i];
-          if (!(keyProp in tempValue) || tempValue[keyProp] === undefined) {
-            if (!key) {
-              throw new PutWithoutKeyError(this.target);
-            } else if (!Array.isArray(key)) {
-              throw new Error(`${libName}: The key passed to "${this.target.name}.put(obj, key)" should be an array.`);
-            }
-            tempValue[keyProp] = key[i];
-          }
-        }
-      } else if (!(keyPath in tempValue)) {
-        if (!key) {
-          throw new PutWithoutKeyError(this.target);
-        }
-        tempValue[keyPath] = key;
-      }
-    }
-
     try {
       // The call to `put()` below is "temporary" and it's assumed that the additional call to `put()` above will always
       // run LAST (i.e., ensuring that the call to `put()` with the MERGED values will "win" when the transaction is
@@ -185,6 +330,263 @@ export class IDBObjectStoreProxy {
     }
   };
 
+  proxiedDelete = (query: IDBValidKey | IDBKeyRange): ReturnType<IDBObjectStore['delete']> => {
+    if (query instanceof IDBKeyRange) {
+      // We can't record a tombstone for a key range since other clients might have objects within that range that we
+      // don't know about (i.e., deleting them would amount to deleting things we never "saw"). Instead, we find out
+      // which keys in the range currently exist and record a tombstone for each one. Note that IndexedDB executes the
+      // requests in a transaction in the order in which they're made, so this request is guaranteed to return the keys
+      // as they exist BEFORE the delete() call below is executed.
+      const keysReq = this.target.getAllKeys(query);
+      keysReq.onsuccess = () => {
+        try {
+          for (const key of keysReq.result) {
+            this.recordDeletion(key);
+          }
+        } catch (error) {
+          this.target.transaction.abort();
+          throw error;
+        }
+      };
+    } else {
+      try {
+        this.recordDeletion(query);
+      } catch (error) {
+        this.target.transaction.abort();
+        throw error;
+      }
+    }
+
+    return this.target.delete(query);
+  };
+
+  proxiedClear = (): ReturnType<IDBObjectStore['clear']> => {
+    try {
+      this.recordClear();
+    } catch (error) {
+      this.target.transaction.abort();
+      throw error;
+    }
+
+    return this.target.clear();
+  };
+
+  proxiedIncrement = (key: IDBValidKey, prop: string | string[], amount = 1): void => {
+    let entry: OpLogEntry;
+    try {
+      entry = this.recordIncrement(key, prop, amount);
+    } catch (error) {
+      this.target.transaction.abort();
+      throw error;
+    }
+
+    // Just like the oplog entry, the new value of the prop only depends on the existing value (i.e., the increment is
+    // applied locally exactly like it is on other clients).
+    this.updateObjectLater(key, entry.objectKey, (value) => {
+      const path = toPropPath(entry.prop);
+      setPathValue(value, path, incrementValue(getPathValue(value, path), amount));
+    });
+  };
+
+  proxiedDecrement = (key: IDBValidKey, prop: string | string[], amount = 1): void => {
+    this.proxiedIncrement(key, prop, -amount);
+  };
+
+  proxiedAddElement = (key: IDBValidKey, prop: string | string[], element: unknown): void => {
+    let entry: OpLogEntry;
+    try {
+      entry = this.makePropEntry('addElement', key, prop, element);
+      this.addOplogEntries([entry]);
+    } catch (error) {
+      this.target.transaction.abort();
+      throw error;
+    }
+
+    this.updateObjectLater(key, entry.objectKey, (value) => {
+      const path = toPropPath(entry.prop);
+      setPathValue(value, path, addElementValue(getPathValue(value, path), element));
+    });
+  };
+
+  proxiedRemoveElement = (key: IDBValidKey, prop: string | string[], element: unknown): void => {
+    let entry: OpLogEntry;
+    const removal: OpLogElementRemoval = { element, tags: [] };
+    try {
+      // The entry's time is established now (i.e., it's only recorded later; see below) so that additions of the
+      // element made after this call can't be removed by it.
+      entry = this.makePropEntry('removeElement', key, prop, removal);
+    } catch (error) {
+      this.target.transaction.abort();
+      throw error;
+    }
+
+    // The tags of the element's additions are only known once the object's existing oplog entries have been read.
+    this.updateObjectLater(
+      key,
+      entry.objectKey,
+      (value, existingEntries) => {
+        const propEntries = existingEntries.filter(
+          (existing) => JSON.stringify(existing.prop) === JSON.stringify(entry.prop)
+        );
+        removal.tags = findElementTags(propEntries, element, entry.hlcTime);
+        this.addOplogEntries([entry]);
+        const path = toPropPath(entry.prop);
+        setPathValue(value, path, removeElementValue(getPathValue(value, path), element));
+      },
+      { readEntries: true }
+    );
+  };
+
+  proxiedSpliceText = (key: IDBValidKey, prop: string | string[], splice: TextSplice): void => {
+    if (
+      !splice ||
+      !Number.isInteger(splice.index) ||
+      !Number.isInteger(splice.deleteCount) ||
+      typeof splice.insert !== 'string'
+    ) {
+      this.target.transaction.abort();
+      throw new TypeError(
+        `${libName}: invalid args passed to ${this.target.name}.spliceText(): splice must have integer "index" and ` +
+          `"deleteCount" properties and a string "insert" property`
+      );
+    }
+    this.editText(key, prop, () => splice);
+  };
+
+  proxiedUpdateText = (key: IDBValidKey, prop: string | string[], newText: string): void => {
+    if (typeof newText !== 'string') {
+      this.target.transaction.abort();
+      throw new TypeError(`${libName}: invalid args passed to ${this.target.name}.updateText(): text must be a string`);
+    }
+    this.editText(key, prop, (currentText) => text.diff(currentText, newText));
+  };
+
+  /**
+   * Changes the value of a text prop (see the `insertText` OpLogEntryOperation) by applying the splice returned by
+   * `getSplice()` for the prop's current text, and records the resulting "deleteText" and "insertText" entries.
+   */
+  editText = (key: IDBValidKey, prop: string | string[], getSplice: (currentText: string) => TextSplice): void => {
+    let deletion: OpLogEntry;
+    let insertion: OpLogEntry;
+    try {
+      // Just like a removal (see `proxiedRemoveElement()`), the entries' times are established now but the entries are
+      // only recorded once the IDs of the prop's existing characters are known.
+      deletion = this.makePropEntry('deleteText', key, prop, []);
+      insertion = this.makePropEntry('insertText', key, prop, { after: null, text: '' });
+    } catch (error) {
+      this.target.transaction.abort();
+      throw error;
+    }
+
+    this.updateObjectLater(
+      key,
+      deletion.objectKey,
+      (value, existingEntries) => {
+        // A text that isn't synced (see `InitOptions`) doesn't have any oplog entries; it's just a string.
+        const path = toPropPath(deletion.prop);
+        if (!toSyncedEntry(deletion)) {
+          const currentValue = getPathValue(value, path);
+          const currentText = typeof currentValue === 'string' ? currentValue : '';
+          const { index, deleteCount, insert } = getSplice(currentText);
+          setPathValue(value, path, currentText.slice(0, index) + insert + currentText.slice(index + deleteCount));
+          return;
+        }
+
+        const deletionTime = existingEntries
+          .filter((entry) => entry.operation === 'delete' || entry.operation === 'clear')
+          .reduce((latest, entry) => (entry.hlcTime > latest ? entry.hlcTime : latest), '');
+        const { setEntry, entries } = findCollectionEntries(existingEntries, deletionTime, deletion.prop);
+        const chars = text.toChars(setEntry, entries);
+        const values = text.toEntryValues(chars, getSplice(chars.map(({ char }) => char).join('')));
+
+        const newEntries: OpLogEntry[] = [];
+        if (values.deletion.length > 0) {
+          newEntries.push({ ...deletion, value: values.deletion });
+        }
+        if (values.insertion) {
+          newEntries.push({ ...insertion, value: values.insertion });
+        }
+        this.addOplogEntries(newEntries);
+
+        // Just like on other clients, the new value is derived from the prop's oplog entries.
+        setPathValue(value, path, text.materialize(setEntry, [...entries, ...newEntries]));
+      },
+      { readEntries: true }
+    );
+  };
+
+  /**
+   * Reads the object with the specified key, passes a copy of it (or an empty object, if it doesn't exist) to `update()`
+   * and then puts the updated object. This is how the value of a counter, set, or text prop is changed locally. If
+   * `options.readEntries` is true, the object's existing oplog entries (along with any "clear" entries for the store)
+   * are also passed to `update()`.
+   *
+   * The read has to happen after any writes requested before it, or at the same time, by the app. That includes the
+   * "final" put of a `put()` call, which is only requested once that call's own read succeeds, so the read is deferred by
+   * two (no-op) requests. Updates for the same store are also applied one at a time, which means that any oplog entries
+   * recorded by an update are included in the entries read by the next one.
+   */
+  updateObjectLater = (
+    key: IDBValidKey,
+    objectKey: OpLogEntry['objectKey'],
+    update: (value: Record<string, unknown>, existingEntries: OpLogEntry[]) => void,
+    options: { readEntries?: boolean } = {}
+  ): void => {
+    const queue = pendingUpdates.get(this.target) || [];
+    pendingUpdates.set(this.target, queue);
+    queue.push(() => {
+      deferRequest(this.target, 2, () => {
+        // IndexedDB processes the requests in order, so these will have succeeded by the time the object has been read.
+        let existingEntriesReqs: IDBRequest<OpLogEntry[]>[] = [];
+        if (options.readEntries) {
+          const oplogStore = this.target.transaction.objectStore(STORE_NAME.OPLOG);
+          const oplogIndex = oplogStore.index(OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME);
+          existingEntriesReqs = [
+            oplogIndex.getAll(objectEntriesRange(this.target.name, objectKey)),
+            oplogIndex.getAll(propEntriesRange(this.target.name, STORE_CLEAR_OBJECT_KEY, '')),
+          ];
+        }
+
+        const existingObjReq = this.target.get(key);
+        existingObjReq.onsuccess = () => {
+          const existingValue = existingObjReq.result;
+          const newValue = existingValue && typeof existingValue === 'object' ? { ...existingValue } : {};
+          const existingEntries = existingEntriesReqs.reduce<OpLogEntry[]>((all, req) => all.concat(req.result), []);
+
+          try {
+            update(newValue, existingEntries);
+            setKeyPathProps(this.target, objectKey, newValue);
+            if (this.target.keyPath) {
+              this.target.put(newValue);
+            } else {
+              this.target.put(newValue, key);
+            }
+          } catch (error) {
+            this.target.transaction.abort();
+            throw new FinalPutError(this.target.name, error);
+          }
+
+          queue.shift();
+          if (queue.length) {
+            queue[0]();
+          }
+        };
+      });
+    });
+
+    if (queue.length === 1) {
+      queue[0]();
+    }
+  };
+
+  proxiedOpenCursor = (...args: Parameters<IDBObjectStore['openCursor']>): ReturnType<IDBObjectStore['openCursor']> => {
+    return proxyCursorRequest(this.target.openCursor(...args), this);
+  };
+
+  proxiedIndex = (name: string): IDBIndex => {
+    return proxyIndex(this.target.index(name), this);
+  };
+
   /**
    * This method is used to convert an object that was just "put" into an object store into 1+ oplog entries that can be
    * recorded and shared so the operation can be replicated on other nodes. It should be called as part of the same
@@ -198,7 +600,7 @@ export class IDBObjectStoreProxy {
    * Note that we're declaring it as a class property initialized to an arrow function to ensure that `this` will
    * resolve correctly (an alternative to re-binding a class method to `this` in the constructor).
    */
-  recordOperation = (newValue: any, key?: IDBValidKey) => {
+  recordOperation = (newValue: any, key?: IDBValidKey): OpLogEntry[] => {
     if (key instanceof ArrayBuffer || key instanceof DataView) {
       throw new TypeError(`Keys of type ArrayBuffer or DataView aren't currently supported.`);
     } else if (Array.isArray(key)) {
@@ -224,7 +626,21 @@ export class IDBObjectStoreProxy {
 
     let entries: OpLogEntry[] = [];
 
-    if (typeof newValue === 'object') {
+    if (typeof newValue === 'object' && this.options.flattenNestedObjects) {
+      // Convert each leaf value in the `value` to an OpLogEntry (e.g., `{ theme: { color: 'red' } }` results in an entry
+      // with `prop: ['theme', 'color']`).
+      for (const { path, value } of flattenObject(newValue)) {
+        let hlTime = HLClock.tick();
+        entries.push({
+          clientId: hlTime.node(),
+          hlcTime: hlTime.toString(),
+          store: this.target.name,
+          objectKey: objectKey,
+          prop: fromPropPath(path),
+          value,
+        });
+      }
+    } else if (typeof newValue === 'object') {
       // Convert each property in the `value` to an OpLogEntry.
       for (const property in newValue) {
         let hlTime = HLClock.tick();
@@ -254,6 +670,103 @@ export class IDBObjectStoreProxy {
       });
     }
 
+    this.addOplogEntries(entries);
+    return entries;
+  };
+
+  /**
+   * Records a "tombstone" oplog entry indicating that the object with the specified key was deleted. Just like
+   * `recordOperation()`, this should be called as part of the same transaction used to perform the actual delete().
+   */
+  recordDeletion = (key: IDBValidKey) => {
+    if (!isSupportedObjectKey(key)) {
+      throw new TypeError(`${libName}: unsupported key type passed to ${this.target.name}.delete(): ${key}`);
+    }
+
+    const hlTime = HLClock.tick();
+    this.addOplogEntries([
+      {
+        clientId: hlTime.node(),
+        hlcTime: hlTime.toString(),
+        store: this.target.name,
+        objectKey: key as OpLogEntry['objectKey'],
+        prop: '',
+        value: null,
+        operation: 'delete',
+      },
+    ]);
+  };
+
+  /**
+   * Records an oplog entry indicating that the value of `prop` for the object with the specified key was incremented
+   * by `amount`. Just like `recordOperation()`, this should be called as part of the same transaction used to update
+   * the object.
+   */
+  recordIncrement = (key: IDBValidKey, prop: string | string[], amount: number): OpLogEntry => {
+    const entry = this.makePropEntry('increment', key, prop, amount);
+    this.addOplogEntries([entry]);
+    return entry;
+  };
+
+  /**
+   * Creates (but doesn't record) an oplog entry for an operation that changes the value of a single prop of the object
+   * with the specified key, such as an increment. Throws a TypeError if the resulting entry is invalid.
+   */
+  makePropEntry = (
+    operation: OpLogEntryOperation,
+    key: IDBValidKey,
+    prop: string | string[],
+    value: unknown
+  ): OpLogEntry => {
+    const hlTime = HLClock.tick();
+    const entry: OpLogEntry = {
+      clientId: hlTime.node(),
+      hlcTime: hlTime.toString(),
+      store: this.target.name,
+      objectKey: key as OpLogEntry['objectKey'],
+      prop: Array.isArray(prop) ? fromPropPath(prop) : prop,
+      value,
+      operation,
+    };
+
+    try {
+      throwIfInvalidOpLogEntry(entry);
+    } catch (error) {
+      throw new TypeError(`${libName}: invalid args passed to ${this.target.name}.${operation}(): ${error.message}`);
+    }
+
+    return entry;
+  };
+
+  /**
+   * Records a single, store-level oplog entry indicating that all of the objects in the store were deleted. Unlike
+   * recording a tombstone for each object, this ensures that other clients also delete objects that this client might
+   * not know about yet (as long as they were last modified before the store was cleared).
+   */
+  recordClear = () => {
+    const hlTime = HLClock.tick();
+    this.addOplogEntries([
+      {
+        clientId: hlTime.node(),
+        hlcTime: hlTime.toString(),
+        store: this.target.name,
+        objectKey: STORE_CLEAR_OBJECT_KEY,
+        prop: '',
+        value: null,
+        operation: 'clear',
+      },
+    ]);
+  };
+
+  addOplogEntries = (allEntries: OpLogEntry[]) => {
+    // Changes to stores and props that aren't synced aren't recorded at all (see `InitOptions`).
+    const entries = allEntries
+      .map((entry) => toSyncedEntry(entry))
+      .filter((entry): entry is OpLogEntry => entry !== null);
+    if (entries.length === 0) {
+      return;
+    }
+
     let oplogStore;
     try {
       // When getting a reference to our own object store where the operation will be recorded, it's important that we
@@ -268,24 +781,134 @@ export class IDBObjectStoreProxy {
       throw new Error(errorMsg);
     }
 
+    // All of the entries recorded in the same transaction are part of the same change set (see OpLogEntry). Only the
+    // entry that was recorded last has the size of the change set, so the previous "last" entry needs to be updated.
+    // The entries also refer to the database's current schema version (see `registerMigration()`).
+    const txReq = this.target.transaction;
+    const previous = changeSets.get(txReq);
+    const changeSet = {
+      id: previous ? previous.id : entries[0].hlcTime,
+      size: (previous ? previous.size : 0) + entries.length,
+      lastEntry: entries[entries.length - 1],
+    };
+    for (const entry of entries) {
+      entry.changeSetId = changeSet.id;
+      entry.schemaVersion = txReq.db.version;
+    }
+    changeSet.lastEntry.changeSetSize = changeSet.size;
+    if (previous) {
+      delete previous.lastEntry.changeSetSize;
+      oplogStore.put(previous.lastEntry);
+    }
+    changeSets.set(txReq, changeSet);
+
     for (const entry of entries) {
       oplogStore.add(entry);
     }
+
+    // Keep the oplog Merkle tree up to date as part of the same transaction (or right after it, if the transaction
+    // doesn't include the META store).
+    addToOplogMerkle(
+      this.target.transaction,
+      entries.map((entry) => entry.hlcTime)
+    );
+    addToOplogChain(this.target.transaction, entries);
+    addRecordedEntries(this.target.transaction, entries);
   };
 }
 
+/**
+ * Used by `put()` to ensure that the merged value of an object only has the new values that "win" against the object's
+ * existing oplog entries (see `registerConflictResolver()`); for each new entry that loses, the value of the existing,
+ * winning entry is kept instead. Note that entries made before the object was most recently deleted (or its store was
+ * cleared) don't compete with the new ones.
+ */
+function keepWinningValues(value: any, newEntries: OpLogEntry[], existingEntries: OpLogEntry[]): any {
+  const newEntryTimes = newEntries.map((entry) => entry.hlcTime);
+  const deletionTime = existingEntries
+    .filter((entry) => entry.operation === 'delete' || entry.operation === 'clear')
+    .reduce((latest, entry) => (entry.hlcTime > latest ? entry.hlcTime : latest), '');
+
+  let winningValue = value && typeof value === 'object' ? { ...value } : value;
+  for (const newEntry of newEntries) {
+    const prop = JSON.stringify(newEntry.prop);
+    const competingEntries = existingEntries.filter(
+      (entry) =>
+        entry.operation === undefined &&
+        entry.hlcTime > deletionTime &&
+        JSON.stringify(entry.prop) === prop &&
+        !newEntryTimes.includes(entry.hlcTime)
+    );
+
+    const winner = findWinningEntry([...competingEntries, newEntry]);
+    if (!winner || winner === newEntry) {
+      continue;
+    } else if (newEntry.prop === '') {
+      winningValue = winner.value;
+    } else {
+      setPathValue(winningValue, toPropPath(newEntry.prop), winner.value);
+    }
+  }
+
+  return winningValue;
+}
+
+/**
+ * Returns the tags of the additions of an element to a set prop (see the `addElement` OpLogEntryOperation), given the
+ * prop's oplog entries, that were made before `beforeTime` and since the prop was last set. Additions that were already
+ * removed are skipped.
+ */
+function findElementTags(propEntries: OpLogEntry[], element: unknown, beforeTime: string): string[] {
+  const json = JSON.stringify(element);
+  const entries = propEntries.filter((entry) => entry.hlcTime < beforeTime);
+  const lastSet = findWinningEntry(entries.filter((entry) => entry.operation === undefined));
+
+  const removedTags: string[] = [];
+  const tags: string[] = [];
+  for (const entry of entries) {
+    if (entry.operation === 'removeElement' && isElementRemoval(entry.value)) {
+      if (JSON.stringify(entry.value.element) === json) {
+        removedTags.push(...entry.value.tags);
+      }
+    } else if (lastSet && entry.hlcTime < lastSet.hlcTime) {
+      continue;
+    } else if (entry.operation === 'addElement' && JSON.stringify(entry.value) === json) {
+      tags.push(entry.hlcTime);
+    } else if (
+      entry === lastSet &&
+      Array.isArray(entry.value) &&
+      entry.value.some((existing) => JSON.stringify(existing) === json)
+    ) {
+      tags.push(entry.hlcTime);
+    }
+  }
+  return tags.filter((tag) => !removedTags.includes(tag));
+}
+
+/**
+ * Calls `callback` once `hops` consecutive no-op requests have succeeded, so that any requests it makes are queued after
+ * the ones made by the success handlers of requests that were already pending.
+ */
+function deferRequest(store: IDBObjectStore, hops: number, callback: () => void) {
+  if (hops === 0) {
+    callback();
+    return;
+  }
+  store.count().onsuccess = () => deferRequest(store, hops - 1, callback);
+}
+
 /**
  * A utility function for deriving a key value that can be used to retrieve an object from an IDBObjectStore.
  */
 export function resolveKey(store: IDBObjectStore, value: any, key?: IDBValidKey) {
-  let resolvedKey;
+  let resolvedKey: any;
 
   if (key) {
     resolvedKey = key;
   } else if (Array.isArray(store.keyPath)) {
-    resolvedKey = store.keyPath.map((keyProp) => value[keyProp]);
+    resolvedKey = store.keyPath.map((keyProp) => getKeyPathValue(value, keyProp));
   } else if (store.keyPath) {
-    resolvedKey = value[store.keyPath];
+    resolvedKey = getKeyPathValue(value, store.keyPath);
   }
 
   if (!resolvedKey || (Array.isArray(resolvedKey) && resolvedKey.length === 0)) {
@@ -2,14 +2,33 @@
 
 import { HLClock } from './HLClock';
 import { HLTime } from './HLTime';
+import { ProxiedObjectStore } from './IDBObjectStoreProxy';
+import { hashOplogEntry, verifyEntryChain } from './integrity';
+import * as merkle from './merkle';
+import { hasMigrations, migrateEntry } from './migrations';
+import { findWinningEntriesByProp, findWinningEntry, resolveConflict } from './resolvers';
+import { findValidationError } from './validators';
+import * as text from './text';
 import {
   debug,
   isEventWithTargetError,
   throwIfInvalidOpLogEntry,
+  isValidOplogSnapshot,
   isValidSideSyncSettings,
   libName,
   log,
   makeClientId,
+  request,
+  flattenObject,
+  fromPropPath,
+  getPathValue,
+  incrementValue,
+  isPlainObject,
+  materializeElements,
+  setKeyPathValue,
+  setPathValue,
+  toCanonicalJson,
+  toPropPath,
 } from './utils';
 
 export enum STORE_NAME {
@@ -23,7 +42,17 @@ export const OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME = 'Indexed by: store, objectK
 export const OPLOG_INDEX_BY_CLIENTID_TIME = 'Indexed by: client ID, hlcTime';
 export const CACHED_SETTINGS_OBJ_KEY = 'settings';
 export const OPLOG_MERKLE_OBJ_KEY = 'oplogMerkle';
+export const PENDING_CHANGE_SETS_OBJ_KEY = 'pendingChangeSets';
+export const PENDING_NEWER_ENTRIES_OBJ_KEY = 'pendingNewerEntries';
+export const OPLOG_CHAIN_TRUNCATION_OBJ_KEY = 'oplogChainTruncatedThrough';
 export const DEFAULT_ENTRY_PAGE_SIZE = 100;
+export const DEFAULT_APPLY_BATCH_SIZE = 500;
+export const DEFAULT_PENDING_CHANGE_SET_RETENTION_MSEC = 30 * 24 * 60 * 60 * 1000;
+export const BROADCAST_CHANNEL_NAME_PREFIX = 'IDBSideSync_Broadcast_';
+
+// Oplog entries that "clear" an entire store use an empty array for their `objectKey`. No actual object can have this
+// key since `resolveKey()` refuses to return an empty array (i.e., oplog entries are never recorded with this key).
+export const STORE_CLEAR_OBJECT_KEY: OpLogEntry['objectKey'] = [];
 
 // This is technically unnecessary, but a nice way to help make sure we're always referencing a valid OpLogEntry
 // property name when defining a `keyPath` for the object store.
@@ -31,6 +60,13 @@ const OPLOG_ENTRY_HLC_TIME_PROP_NAME: keyof OpLogEntry = 'hlcTime';
 
 let cachedDb: IDBDatabase;
 let cachedSettings: Settings;
+let broadcastChannel: BroadcastChannel | null = null;
+let syncScope: InitOptions = {};
+
+type BroadcastMessage =
+  | { type: 'entries'; entries: OpLogEntry[]; source: ObjectChange['source'] }
+  | { type: 'changes'; changes: ObjectChange[] }
+  | { type: 'settings'; settings: Settings };
 
 /**
  * This should be called as part of the upstream library handling an onupgradeneeded event (i.e., this won't be called
@@ -39,7 +75,18 @@ let cachedSettings: Settings;
 export function onupgradeneeded(event: IDBVersionChangeEvent): void {
   debug && log.debug('onupgradeneeded()');
 
-  const db = (event.target as IDBOpenDBRequest).result;
+  const openReq = event.target as IDBOpenDBRequest;
+  const db = openReq.result;
+
+  // When upgrading a database that IDBSideSync was already using, its stores already exist; only the oplog entries
+  // might need to be migrated (see `registerMigration()`).
+  if (db.objectStoreNames.contains(STORE_NAME.OPLOG)) {
+    const newVersion = event.newVersion || db.version;
+    if (hasMigrations(event.oldVersion, newVersion)) {
+      migrateOplog(openReq.transaction as IDBTransaction, newVersion);
+    }
+    return;
+  }
 
   // Create an object store where we can put IDBSideSync settings that won't be sync'ed. Note the lack of a keypath.
   // This means that a "key" arg will need to be specified when calling `add()` or `put()`.
@@ -79,16 +126,85 @@ export function onupgradeneeded(event: IDBVersionChangeEvent): void {
 }
 
 /**
- * Allow IDBSideSync to initialize itself with the provided IndexedDB database.
+ * Rewrites the oplog entries (including those of pending change sets; see `applyOplogEntries()`) using the migrations
+ * registered for versions up to and including `toVersion`, as part of the "versionchange" transaction.
+ */
+function migrateOplog(txReq: IDBTransaction, toVersion: number): void {
+  let numMigrated = 0;
+  const cursorReq = txReq.objectStore(STORE_NAME.OPLOG).openCursor();
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) {
+      debug && log.debug(`Migrated ${numMigrated} oplog entries to schema version ${toVersion}.`);
+      return;
+    }
+    const migrated = migrateEntry(cursor.value, toVersion);
+    if (migrated !== cursor.value) {
+      cursor.update(migrated);
+      numMigrated++;
+    }
+    cursor.continue();
+  };
+
+  const metaStore = txReq.objectStore(STORE_NAME.META);
+  const getReq = metaStore.get(PENDING_CHANGE_SETS_OBJ_KEY);
+  getReq.onsuccess = () => {
+    const pendingChangeSets = getReq.result as Record<string, OpLogEntry[]> | undefined;
+    if (pendingChangeSets) {
+      for (const changeSetId in pendingChangeSets) {
+        pendingChangeSets[changeSetId] = pendingChangeSets[changeSetId].map((entry) => migrateEntry(entry, toVersion));
+      }
+      metaStore.put(pendingChangeSets, PENDING_CHANGE_SETS_OBJ_KEY);
+    }
+  };
+}
+
+export interface InitOptions {
+  /**
+   * The names of the object stores whose changes are synced with other clients. If not specified, every store is
+   * synced. Changes made to any other store via a proxied store aren't recorded in the oplog (i.e., they stay on this
+   * device), and entries for other stores that are received from other clients are ignored.
+   */
+  syncedStores?: string[];
+
+  /**
+   * The props of each store's objects that stay on this device (e.g., `{ todos: ['lastOpenedAt'] }`). Just like the
+   * stores that aren't synced, changes to these props--or to props "under" them (e.g., `['ui', 'scrollTop']` if `ui` is
+   * local-only)--aren't recorded, uploaded, or applied. Note that counters, sets, and text only work as such if they're
+   * synced; local-only ones are just plain values.
+   */
+  localOnlyProps?: Record<string, OpLogEntry['prop'][]>;
+}
+
+/**
+ * Allow IDBSideSync to initialize itself with the provided IndexedDB database. Use `options` to keep some stores or
+ * props from being synced (see `InitOptions`).
  */
-export async function init(db: IDBDatabase): Promise<void> {
+export async function init(db: IDBDatabase, options: InitOptions = {}): Promise<void> {
   debug && log.debug('init()');
   if (!db || !db.createObjectStore) {
     throw new TypeError(`${libName}.init(): 'db' arg must be an instance of IDBDatabase.`);
   }
+  if (options.syncedStores !== undefined && !Array.isArray(options.syncedStores)) {
+    throw new TypeError(`${libName}.init(): 'options.syncedStores' must be an array of store names.`);
+  }
   cachedDb = db;
+  syncScope = { syncedStores: options.syncedStores, localOnlyProps: options.localOnlyProps };
   const settings = await initSettings();
   HLClock.setTime(new HLTime(0, 0, settings.nodeId));
+  await initOplogMerkle();
+  openBroadcastChannel(db);
+  await applyUpgradedEntries();
+}
+
+/**
+ * Returns the IndexedDB database that IDBSideSync was initialized with (see `init()`).
+ */
+export function getDatabase(): IDBDatabase {
+  if (!cachedDb) {
+    throw new Error(`${libName} hasn't been initialized. Please call init() first.`);
+  }
+  return cachedDb;
 }
 
 export function getSettings(): Settings {
@@ -98,6 +214,164 @@ export function getSettings(): Settings {
   return cachedSettings;
 }
 
+/**
+ * Returns the version of an oplog entry that can be synced with other clients (see `InitOptions`): `null` if its store
+ * isn't synced or its prop is local-only, a copy without the values of any local-only props "under" its prop (e.g., if
+ * it sets `ui` and `['ui', 'scrollTop']` is local-only), or otherwise the entry itself.
+ */
+export function toSyncedEntry(entry: OpLogEntry): OpLogEntry | null {
+  const { syncedStores, localOnlyProps } = syncScope;
+  if (syncedStores && !syncedStores.includes(entry.store)) {
+    return null;
+  }
+
+  const localPaths = ((localOnlyProps && localOnlyProps[entry.store]) || []).map((prop) => toPropPath(prop));
+  const path = toPropPath(entry.prop);
+  if (localPaths.some((localPath) => localPath.length > 0 && localPath.every((name, i) => path[i] === name))) {
+    return null;
+  }
+
+  const nestedPaths = localPaths.filter(
+    (localPath) => localPath.length > path.length && path.every((name, i) => localPath[i] === name)
+  );
+  if (entry.operation !== undefined || nestedPaths.length === 0) {
+    return entry;
+  }
+  const value = nestedPaths.reduce(
+    (value, localPath) => omitPathValue(value, localPath.slice(path.length)),
+    entry.value
+  );
+  return value === entry.value ? entry : { ...entry, value };
+}
+
+/**
+ * Returns the versions of some of a client's oplog entries that can be synced with other clients (see
+ * `toSyncedEntry()`). The entries have to include ALL of the entries of any change sets (see OpLogEntry) they're part
+ * of: if the sync options were changed after a change set was recorded, some of its entries might not be synced
+ * anymore, so the `changeSetSize` is adjusted (and moved to the last remaining entry, if necessary) so that other
+ * clients don't wait for them forever.
+ */
+export function toSyncedEntries(entries: OpLogEntry[]): OpLogEntry[] {
+  const syncedEntries: OpLogEntry[] = [];
+  const droppedCounts = new Map<string, number>();
+  for (const entry of entries) {
+    const syncedEntry = toSyncedEntry(entry);
+    if (syncedEntry) {
+      syncedEntries.push(syncedEntry);
+    } else if (entry.changeSetId !== undefined) {
+      droppedCounts.set(entry.changeSetId, (droppedCounts.get(entry.changeSetId) || 0) + 1);
+    }
+  }
+
+  const changeSetSizes = new Map<string, number>();
+  for (const entry of entries) {
+    const droppedCount = entry.changeSetId !== undefined && droppedCounts.get(entry.changeSetId);
+    if (droppedCount && entry.changeSetSize !== undefined) {
+      changeSetSizes.set(entry.changeSetId as string, entry.changeSetSize - droppedCount);
+    }
+  }
+  if (changeSetSizes.size === 0) {
+    return syncedEntries;
+  }
+
+  const lastEntries = new Map<string, OpLogEntry>();
+  for (const entry of syncedEntries) {
+    if (entry.changeSetId !== undefined) {
+      lastEntries.set(entry.changeSetId, entry);
+    }
+  }
+  return syncedEntries.map((entry) => {
+    const changeSetSize = entry.changeSetId !== undefined ? changeSetSizes.get(entry.changeSetId) : undefined;
+    const isLastEntry = lastEntries.get(entry.changeSetId as string) === entry;
+    if (changeSetSize === undefined || entry.changeSetSize === (isLastEntry ? changeSetSize : undefined)) {
+      return entry;
+    }
+    const adjustedEntry = { ...entry };
+    delete adjustedEntry.changeSetSize;
+    if (isLastEntry) {
+      adjustedEntry.changeSetSize = changeSetSize;
+    }
+    return adjustedEntry;
+  });
+}
+
+/**
+ * Brings the local client's oplog entries that were recorded after `afterTime` in line with the current sync options
+ * (see `InitOptions`), which might have changed since the entries were recorded: entries that aren't synced anymore are
+ * deleted, the others are replaced by their synced versions (see `toSyncedEntries()`), and the hash chain is re-linked
+ * (see the note on the `hash` and `prevHash` properties of OpLogEntry). `sync()` does this for the entries that haven't
+ * been uploaded yet so that the entries it uploads have the same hashes as the ones that other clients can verify.
+ *
+ * @returns the number of entries that were deleted or replaced.
+ */
+export function applySyncScope(afterTime: Date | null): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const clientId = cachedSettings.nodeId;
+    const txReq = cachedDb.transaction([STORE_NAME.OPLOG, STORE_NAME.META], 'readwrite');
+    txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
+    txReq.onerror = (event) => {
+      const error = isEventWithTargetError(event) ? event.target.error : txReq.error;
+      log.error('Failed to apply the sync options to oplog entries:', error);
+      reject(new Error(`${libName} Failed to apply the sync options to oplog entries`));
+    };
+
+    let numChanged = 0;
+    txReq.oncomplete = () => resolve(numChanged);
+
+    const oplogStore = txReq.objectStore(STORE_NAME.OPLOG);
+    const lowerBound = [clientId, afterTime instanceof Date ? afterTime.toISOString() : ''];
+    // See getEntriesByClientPage() for why '9' is used.
+    const range = IDBKeyRange.bound(lowerBound, [clientId, '9']);
+    const getReq = oplogStore.index(OPLOG_INDEX_BY_CLIENTID_TIME).getAll(range);
+    getReq.onsuccess = () => {
+      const entries = getReq.result as OpLogEntry[];
+      const syncedEntries = new Map(
+        toSyncedEntries(entries).map((entry): [string, OpLogEntry] => [entry.hlcTime, entry])
+      );
+      const changedEntries = entries.filter((entry) => syncedEntries.get(entry.hlcTime) !== entry);
+      if (changedEntries.length === 0) {
+        return;
+      }
+
+      const deletedTimes: string[] = [];
+      for (const entry of changedEntries) {
+        const syncedEntry = syncedEntries.get(entry.hlcTime);
+        if (syncedEntry) {
+          oplogStore.put(syncedEntry);
+        } else {
+          oplogStore.delete(entry.hlcTime);
+          deletedTimes.push(entry.hlcTime);
+        }
+      }
+      numChanged = changedEntries.length;
+      debug && log.debug(`Applied the sync options to ${numChanged} oplog entries.`);
+
+      // Unlike the entries deleted by `deleteSupersededEntries()`, these will never be uploaded, so they're removed from
+      // the oplog Merkle tree (i.e., inserting their times again "cancels out" the first insertion).
+      if (deletedTimes.length > 0) {
+        addToOplogMerkle(txReq, deletedTimes);
+      }
+      addToOplogChain(txReq, changedEntries);
+    };
+  });
+}
+
+/**
+ * Returns a copy of `value` without the nested value at `path` (or `value` itself if there's nothing at `path`).
+ */
+function omitPathValue(value: unknown, path: string[]): unknown {
+  if (!isPlainObject(value) || !(path[0] in value)) {
+    return value;
+  }
+  const copy = { ...value };
+  if (path.length === 1) {
+    delete copy[path[0]];
+  } else {
+    copy[path[0]] = omitPathValue(copy[path[0]], path.slice(1));
+  }
+  return copy;
+}
+
 /**
  * Ensures that IDBSideSync has required settings in its own IndexedDB store (e.g., a unique node ID that identifies
  * all the oplog entries created by the application instance).
@@ -149,11 +423,462 @@ export function saveSettings(newSettings: Settings): Promise<Settings> {
     putReq.onsuccess = () => {
       cachedSettings = newSettings;
       debug && log.debug('Successfully saved settings:', cachedSettings);
+      broadcast({ type: 'settings', settings: newSettings });
       resolve(cachedSettings);
     };
   });
 }
 
+/**
+ * Ensures that a Merkle tree for the oplog entries exists in the META store. If it doesn't (e.g., because the oplog
+ * entries were recorded by a version of IDBSideSync that didn't maintain the tree), it's built from the hlcTimes of
+ * all the existing oplog entries.
+ */
+export function initOplogMerkle(): Promise<MerkleTree> {
+  return new Promise((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.META, STORE_NAME.OPLOG], 'readwrite');
+    txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
+    txReq.onerror = (event) => {
+      const error = isEventWithTargetError(event) ? event.target.error : txReq.error;
+      log.error('Failed to init oplog merkle tree:', error);
+      reject(new Error(`${libName} Failed to init oplog merkle tree`));
+    };
+
+    const metaStore = txReq.objectStore(STORE_NAME.META);
+    const getReq = metaStore.get(OPLOG_MERKLE_OBJ_KEY);
+
+    getReq.onsuccess = () => {
+      if (getReq.result) {
+        debug && log.debug(`Skipping oplog merkle tree initialization; existing tree found.`);
+        resolve(getReq.result);
+        return;
+      }
+
+      debug && log.debug('No oplog merkle tree found in database; building it from existing oplog entries...');
+      let tree = merkle.emptyTree();
+      // The oplog store's keyPath is `hlcTime`, so we only need the keys--not the entries themselves.
+      const cursorReq = txReq.objectStore(STORE_NAME.OPLOG).openKeyCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (cursor) {
+          try {
+            tree = merkle.insert(tree, HLTime.parse(cursor.primaryKey as string));
+          } catch (error) {
+            log.warn(`Not adding invalid oplog entry time to merkle tree:`, cursor.primaryKey, error);
+          }
+          cursor.continue();
+          return;
+        }
+
+        const putReq = metaStore.put(tree, OPLOG_MERKLE_OBJ_KEY);
+        putReq.onsuccess = () => {
+          debug && log.debug('Successfully saved initial oplog merkle tree.');
+          resolve(tree);
+        };
+      };
+    };
+  });
+}
+
+// Keeps track of the oplog Merkle tree for each transaction in which oplog entries are being added. This is needed
+// because oplog entries might be added several times in the same transaction (e.g., the app calls `put()` on a proxied
+// store several times). If each of those resulted in separate get() and put() requests for the tree, the requests
+// would be interleaved (get, get, put, put) and all but the last update would be lost.
+const oplogMerkleUpdates = new WeakMap<IDBTransaction, { tree?: MerkleTree; pendingTimes: HLTime[] }>();
+
+// The hlcTimes that will be added to the oplog Merkle tree once each transaction that doesn't include the META store
+// completes; see `addToOplogMerkle()`.
+const deferredOplogMerkleTimes = new WeakMap<IDBTransaction, string[]>();
+
+/**
+ * Adds the hlcTimes of 1+ oplog entries to the Merkle tree in the META store. This should be called as part of the same
+ * transaction used to add the entries to the oplog store so that the tree is always consistent with the oplog. Also
+ * note that each entry should only be added to the tree ONCE (i.e., only when it's a new addition to the oplog
+ * store)--see `merkle.insert()` for why.
+ *
+ * If the transaction doesn't include the META store (e.g., an app transaction that was opened with only the app's
+ * stores and OPLOG_STORE), the times are added in a separate transaction once it completes instead. In that case, the
+ * tree won't have them if the page is closed in between.
+ */
+export function addToOplogMerkle(txReq: IDBTransaction, hlcTimes: string[]): void {
+  if (txReq.objectStoreNames && !txReq.objectStoreNames.contains(STORE_NAME.META)) {
+    deferOplogMerkleUpdate(txReq, hlcTimes);
+    return;
+  }
+
+  const times = hlcTimes.map((hlcTime) => HLTime.parse(hlcTime));
+  const metaStore = txReq.objectStore(STORE_NAME.META);
+  let update = oplogMerkleUpdates.get(txReq);
+
+  if (update) {
+    if (update.tree) {
+      // We already have the most recent version of the tree for this transaction.
+      update.tree = times.reduce(merkle.insert, update.tree);
+      metaStore.put(update.tree, OPLOG_MERKLE_OBJ_KEY);
+    } else {
+      // The tree is still being retrieved; the times will be added when it is.
+      update.pendingTimes.push(...times);
+    }
+    return;
+  }
+
+  const newUpdate: { tree?: MerkleTree; pendingTimes: HLTime[] } = { pendingTimes: times };
+  oplogMerkleUpdates.set(txReq, newUpdate);
+
+  const getReq = metaStore.get(OPLOG_MERKLE_OBJ_KEY);
+  getReq.onsuccess = () => {
+    newUpdate.tree = newUpdate.pendingTimes.reduce(merkle.insert, getReq.result || merkle.emptyTree());
+    newUpdate.pendingTimes = [];
+    metaStore.put(newUpdate.tree, OPLOG_MERKLE_OBJ_KEY);
+  };
+}
+
+function deferOplogMerkleUpdate(txReq: IDBTransaction, hlcTimes: string[]): void {
+  const deferredTimes = deferredOplogMerkleTimes.get(txReq);
+  if (deferredTimes) {
+    deferredTimes.push(...hlcTimes);
+    return;
+  }
+
+  const newDeferredTimes = [...hlcTimes];
+  deferredOplogMerkleTimes.set(txReq, newDeferredTimes);
+  txReq.addEventListener('complete', () => {
+    try {
+      const merkleTxReq = txReq.db.transaction([STORE_NAME.META], 'readwrite');
+      merkleTxReq.onabort = () => log.error(`Failed to add oplog entry times to merkle tree:`, merkleTxReq.error);
+      addToOplogMerkle(merkleTxReq, newDeferredTimes);
+    } catch (error) {
+      log.error(`Failed to add oplog entry times to merkle tree:`, error);
+    }
+  });
+}
+
+// Keeps track of the local client's hash chain for each transaction in which oplog entries are being recorded (see
+// `addToOplogChain()`): the earliest hlcTime of the entries added so far, how many times entries have been added, and
+// whether the chain is currently being re-linked.
+const oplogChainUpdates = new WeakMap<IDBTransaction, { minTime: string; numAdds: number; isLinking: boolean }>();
+
+/**
+ * Links oplog entries recorded by the local client into its hash chain (see the note on the `hash` and `prevHash`
+ * properties of OpLogEntry). This should be called as part of the same transaction used to add the entries to the
+ * oplog store, AFTER they've been added.
+ *
+ * The chain follows the order of the entries' hlcTimes, which isn't necessarily the order in which they're added (e.g.,
+ * a change can be recorded after waiting for some other request), so the entries from the earliest new one onwards are
+ * read back and re-linked; only the ones whose hashes change are written. If more entries are added while that's
+ * happening, the chain is re-linked again afterwards.
+ */
+export function addToOplogChain(txReq: IDBTransaction, entries: OpLogEntry[]): void {
+  const minTime = entries.reduce((min, entry) => (entry.hlcTime < min ? entry.hlcTime : min), entries[0].hlcTime);
+  let update = oplogChainUpdates.get(txReq);
+
+  if (update) {
+    update.minTime = minTime < update.minTime ? minTime : update.minTime;
+    update.numAdds++;
+    if (update.isLinking) {
+      return;
+    }
+  } else {
+    update = { minTime, numAdds: 1, isLinking: false };
+    oplogChainUpdates.set(txReq, update);
+  }
+
+  relinkOplogChain(txReq, update);
+}
+
+function relinkOplogChain(txReq: IDBTransaction, update: { minTime: string; numAdds: number; isLinking: boolean }) {
+  const clientId = cachedSettings.nodeId;
+  const numAdds = update.numAdds;
+  const oplogStore = txReq.objectStore(STORE_NAME.OPLOG);
+  const oplogIndex = oplogStore.index(OPLOG_INDEX_BY_CLIENTID_TIME);
+  update.isLinking = true;
+
+  // Find the most recent entry that precedes the new ones and is already linked. Any unlinked entries along the way
+  // (i.e., recorded by an older version of IDBSideSync) are linked too.
+  const unlinked: OpLogEntry[] = [];
+  const cursorReq = oplogIndex.openCursor(
+    IDBKeyRange.bound([clientId, ''], [clientId, update.minTime], false, true),
+    'prev'
+  );
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (cursor && typeof cursor.value.hash !== 'string') {
+      unlinked.unshift(cursor.value);
+      cursor.continue();
+      return;
+    }
+
+    const anchor: OpLogEntry | undefined = cursor ? cursor.value : undefined;
+    // See getEntriesByClientPage() for why '9' is used.
+    const getReq = oplogIndex.getAll(IDBKeyRange.bound([clientId, update.minTime], [clientId, '9']));
+    getReq.onsuccess = () => {
+      let prevHash = anchor ? anchor.hash : null;
+      for (const entry of [...unlinked, ...(getReq.result as OpLogEntry[])]) {
+        const linked: OpLogEntry = { ...entry, prevHash };
+        linked.hash = hashOplogEntry(linked);
+        if (linked.hash !== entry.hash || entry.prevHash !== prevHash) {
+          oplogStore.put(linked);
+        }
+        prevHash = linked.hash;
+      }
+
+      update.isLinking = false;
+      if (update.numAdds !== numAdds) {
+        relinkOplogChain(txReq, update);
+      }
+    };
+  };
+}
+
+/**
+ * Checks the local client's hash chain (see the note on the `hash` and `prevHash` properties of OpLogEntry) by walking
+ * its oplog entries in the order they were recorded, and returns the problems that were found: entries that were
+ * modified after being recorded, and entries that are missing or out of order. Entries deleted by
+ * `deleteSupersededEntries()` aren't reported as missing.
+ *
+ * Note that the oplog only has the entries from OTHER clients that were actually applied (e.g., stale entries are
+ * ignored), so their chains are checked as they're downloaded instead (see `PluginSyncResult`).
+ */
+export function verifyOplog(): Promise<OplogIntegrityIssue[]> {
+  return new Promise((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.OPLOG, STORE_NAME.META], 'readonly');
+    txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
+    txReq.onerror = (event) => reject(isEventWithTargetError(event) ? event.target.error : txReq.error);
+
+    const clientId = cachedSettings.nodeId;
+    const oplogIndex = txReq.objectStore(STORE_NAME.OPLOG).index(OPLOG_INDEX_BY_CLIENTID_TIME);
+    const entriesReq = oplogIndex.getAll(IDBKeyRange.bound([clientId, ''], [clientId, '9']));
+    const truncationReq = txReq.objectStore(STORE_NAME.META).get(OPLOG_CHAIN_TRUNCATION_OBJ_KEY);
+
+    txReq.oncomplete = () => {
+      resolve(verifyEntryChain(entriesReq.result, null, { truncatedThrough: truncationReq.result }));
+    };
+  });
+}
+
+// The oplog entries that have been recorded by proxied stores in each transaction that hasn't completed yet.
+const recordedEntries = new WeakMap<IDBTransaction, OpLogEntry[]>();
+const recordedEntriesListeners: ((entries: OpLogEntry[], txReq: IDBTransaction) => void)[] = [];
+
+/**
+ * Registers a function that is called each time a transaction in which a proxied store recorded oplog entries (i.e.,
+ * the app changed something) completes, with ALL of the entries recorded by that transaction. Entries that were applied
+ * via `applyOplogEntry()` aren't included.
+ *
+ * @returns a function that unregisters the listener.
+ */
+export function onEntriesRecorded(listener: (entries: OpLogEntry[], txReq: IDBTransaction) => void): () => void {
+  recordedEntriesListeners.push(listener);
+  return () => {
+    const index = recordedEntriesListeners.indexOf(listener);
+    if (index >= 0) {
+      recordedEntriesListeners.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Keeps track of the oplog entries recorded by a proxied store so that the `onEntriesRecorded()` listeners can be called
+ * once the transaction completes. Nothing happens if the transaction is aborted.
+ */
+export function addRecordedEntries(txReq: IDBTransaction, entries: OpLogEntry[]): void {
+  let txEntries = recordedEntries.get(txReq);
+  if (!txEntries) {
+    const newTxEntries: OpLogEntry[] = [];
+    txEntries = newTxEntries;
+    recordedEntries.set(txReq, newTxEntries);
+    txReq.addEventListener('complete', () => {
+      for (const listener of [...recordedEntriesListeners]) {
+        try {
+          listener(newTxEntries, txReq);
+        } catch (error) {
+          log.error(`Error thrown by listener passed to onEntriesRecorded():`, error);
+        }
+      }
+      notifyChangeListeners(newTxEntries, 'local');
+      broadcast({ type: 'entries', entries: newTxEntries, source: 'local' });
+    });
+  }
+  txEntries.push(...entries);
+}
+
+/**
+ * Returns a promise for ALL of the oplog entries that proxied stores record in a transaction, which is resolved once the
+ * transaction completes (regardless of the order in which the transaction's "complete" listeners run), or with no
+ * entries if the transaction is aborted.
+ */
+export function getRecordedEntries(txReq: IDBTransaction): Promise<OpLogEntry[]> {
+  return new Promise((resolve) => {
+    txReq.addEventListener('complete', () => resolve(recordedEntries.get(txReq) || []));
+    txReq.addEventListener('abort', () => resolve([]));
+  });
+}
+
+const changeListeners: { listener: (changes: ObjectChange[]) => void; stores?: string[] }[] = [];
+
+/**
+ * Registers a function that is called each time changes to objects are committed: when a transaction in which the app
+ * changed objects via a proxied store completes, and when oplog entries from other clients have been applied (see
+ * `applyOplogEntries()`). The function is called once for each transaction, with an `ObjectChange` for each object that
+ * changed. Entries that were ignored (e.g., because they were stale) don't result in any changes. If `options.stores`
+ * is specified, only changes to those stores are included (and the function isn't called if there are none).
+ *
+ * @returns a function that unregisters the listener.
+ */
+export function onChange(listener: (changes: ObjectChange[]) => void, options: { stores?: string[] } = {}): () => void {
+  const registration = { listener, stores: options.stores };
+  changeListeners.push(registration);
+  return () => {
+    const index = changeListeners.indexOf(registration);
+    if (index >= 0) {
+      changeListeners.splice(index, 1);
+    }
+  };
+}
+
+function notifyChangeListeners(entries: OpLogEntry[], source: ObjectChange['source']): void {
+  if (changeListeners.length === 0) {
+    return;
+  }
+
+  const changes = new Map<string, ObjectChange>();
+  for (const entry of entries) {
+    const key = JSON.stringify([entry.store, entry.objectKey]);
+    let change = changes.get(key);
+    if (!change) {
+      change = { store: entry.store, objectKey: entry.objectKey, props: [], source };
+      changes.set(key, change);
+    }
+    if (!change.props.some((prop) => JSON.stringify(prop) === JSON.stringify(entry.prop))) {
+      change.props.push(entry.prop);
+    }
+  }
+  callChangeListeners(Array.from(changes.values()));
+}
+
+/**
+ * Calls each `onChange()` listener with the changes to the stores that it's interested in.
+ */
+function callChangeListeners(changes: ObjectChange[]): void {
+  for (const { listener, stores } of [...changeListeners]) {
+    const storeChanges = changes.filter((change) => !stores || stores.includes(change.store));
+    if (storeChanges.length === 0) {
+      continue;
+    }
+    try {
+      listener(storeChanges);
+    } catch (error) {
+      log.error(`Error thrown by listener passed to onChange():`, error);
+    }
+  }
+}
+
+/**
+ * Opens a BroadcastChannel that's shared by all the tabs (and workers) that use IDBSideSync with the same database, so
+ * that changes committed in one of them are noticed by the others: their clocks are advanced past the new entries (so
+ * that entries recorded afterwards are considered more recent), their cached settings are updated, and `onChange()`
+ * listeners are called. `onEntriesRecorded()` listeners aren't called; those are only for changes made in the current
+ * tab (e.g., so that an `UndoManager` only undoes the current tab's changes).
+ */
+function openBroadcastChannel(db: IDBDatabase): void {
+  broadcastChannel?.close();
+  broadcastChannel = null;
+  if (typeof BroadcastChannel === 'undefined') {
+    debug && log.debug(`BroadcastChannel isn't supported; changes won't be shared with other tabs.`);
+    return;
+  }
+  broadcastChannel = new BroadcastChannel(BROADCAST_CHANNEL_NAME_PREFIX + db.name);
+  broadcastChannel.onmessage = (event: MessageEvent) => onBroadcastMessage(event.data as BroadcastMessage);
+}
+
+function broadcast(message: BroadcastMessage): void {
+  if (
+    !broadcastChannel ||
+    (message.type === 'entries' && message.entries.length === 0) ||
+    (message.type === 'changes' && message.changes.length === 0)
+  ) {
+    return;
+  }
+  try {
+    broadcastChannel.postMessage(message);
+  } catch (error) {
+    log.error(`Failed to broadcast a message to other tabs:`, error);
+  }
+}
+
+function onBroadcastMessage(message: BroadcastMessage): void {
+  debug && log.debug(`Received a broadcast message from another tab:`, message);
+  if (message.type === 'settings') {
+    if (isValidSideSyncSettings(message.settings)) {
+      cachedSettings = message.settings;
+    }
+    return;
+  }
+
+  if (message.type === 'changes') {
+    if (Array.isArray(message.changes)) {
+      callChangeListeners(message.changes);
+    }
+    return;
+  }
+
+  if (message.type !== 'entries' || !Array.isArray(message.entries) || message.entries.length === 0) {
+    return;
+  }
+
+  // Note that other tabs share the same node ID, so (unlike `tickClockPast()`) this doesn't warn about that.
+  const latestTime = message.entries.reduce(
+    (latest, entry) => (entry.hlcTime > latest ? entry.hlcTime : latest),
+    message.entries[0].hlcTime
+  );
+  if (latestTime > HLClock.time().toString()) {
+    try {
+      HLClock.tickPast(HLTime.parse(latestTime));
+    } catch (error) {
+      log.error(`Failed to update local HL time for entries broadcast by another tab:`, error);
+    }
+  }
+  notifyChangeListeners(message.entries, message.source);
+}
+
+/**
+ * Returns the Merkle tree for all of the oplog entries that are in the local oplog store. This can be shared with other
+ * clients (e.g., via a sync plugin) and compared using `getOplogMerkleDivergenceTime()`.
+ *
+ * Note that the tree summarizes the entries that have been added to the oplog store (including any that were later
+ * deleted by `compactOplog()`). Entries that were received from other clients but weren't applied (because a more
+ * recent entry for the same prop already existed) aren't included.
+ */
+export function getOplogMerkleTree(): Promise<MerkleTree> {
+  return new Promise((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.META], 'readonly');
+    txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
+    txReq.onerror = (event) => {
+      const error = isEventWithTargetError(event) ? event.target.error : txReq.error;
+      log.error('Failed to get oplog merkle tree:', error);
+      reject(new Error(`${libName} Failed to get oplog merkle tree`));
+    };
+
+    const getReq = txReq.objectStore(STORE_NAME.META).get(OPLOG_MERKLE_OBJ_KEY);
+    getReq.onsuccess = () => {
+      resolve(getReq.result || merkle.emptyTree());
+    };
+  });
+}
+
+/**
+ * Compares the local oplog Merkle tree to some other tree (e.g., one from another client) to find the earliest time at
+ * which the collections of oplog entries summarized by the trees differ. In other words, the oplog entries that need to
+ * be exchanged in order for both collections to be the same are the ones whose time is at or after the returned time.
+ * Note that the time is only precise to the minute.
+ *
+ * @returns the time at which the collections diverge, or `null` if they are the same.
+ */
+export async function getOplogMerkleDivergenceTime(otherTree: MerkleTree): Promise<Date | null> {
+  const divergenceTime = merkle.diff(await getOplogMerkleTree(), otherTree);
+  return divergenceTime === null ? null : new Date(divergenceTime);
+}
+
 export async function getMostRecentEntryForClient(clientId: string): Promise<OpLogEntry | null> {
   const entries = await getEntriesByClientPage(clientId, { newestFirst: true, page: 0, pageSize: 1 });
   return Promise.resolve(entries.length > 0 ? entries[0] : null);
@@ -337,293 +1062,1815 @@ export function getEntriesByTimePage(
   });
 }
 
-export async function applyOplogEntries(candidates: OpLogEntry[]) {
-  for (const candidate of candidates) {
-    await applyOplogEntry(candidate);
-  }
+/**
+ * An oplog entry returned by `getFieldHistory()` or `getObjectHistory()`, along with its parsed `hlcTime`.
+ */
+export interface HistoryEntry extends OpLogEntry {
+  time: HLTime;
 }
 
 /**
- * Attempt to apply an oplog entry to a specified store + objectKey + prop. In other words, update an existing object in
- * the appropriate object store, or create a new one, per the _operation_ represented by an oplog entry object. Then add
- * the entry to the local oplog entries store.
+ * Iterates over the oplog entries for one of an object's props (i.e., each change to that prop, along with the ID of
+ * the client that made it and when), oldest first unless `options.newestFirst` is `true`. The `prop` can be a property
+ * name or a path (e.g., `['theme', 'color']` for a store proxied with the `flattenNestedObjects` option).
  *
- * If the referenced objectKey + prop already exists, it will only be updated if the oplog entry is the most recent one
- * we know about for that store + objectKey + prop. If an oplog entry with a more recent `hlcTime` is found in the local
- * oplog store, the passed-in entry will not be applied or added to the local oplog store.
+ * Note that the entries that deleted the object (or cleared its store) aren't included since they don't have a prop;
+ * use `getObjectHistory()` to include those. Entries that were deleted by `compactOplog()` aren't included either.
  *
- * Important: all of the IndexedDB operations performed by this function should happen in the same transaction. This
- * ensures that, if any one of those operations fails, the transaction can be aborted and none of the operations will
- * persist.
- */
-export function applyOplogEntry(candidate: OpLogEntry) {
+ * @example
+ * ```
+ * for await (const { clientId, time, value } of getFieldHistory('todos', 1, 'name')) {
+ *   console.log(`Changed to ${value} by ${clientId} at ${new Date(time.millis())}`);
+ * }
+ * ```
+ */
+export async function* getFieldHistory(
+  store: string,
+  objectKey: OpLogEntry['objectKey'],
+  prop: OpLogEntry['prop'],
+  options: { newestFirst?: boolean } = {}
+): AsyncGenerator<HistoryEntry, void, void> {
+  const range = propEntriesRange(store, objectKey, fromPropPath(toPropPath(prop)));
+  const entries = await getOplogIndexEntries(range);
+  if (options.newestFirst) {
+    entries.reverse();
+  }
+  for (const entry of entries) {
+    yield { ...entry, time: HLTime.parse(entry.hlcTime) };
+  }
+}
+
+/**
+ * Iterates over all of the oplog entries for an object (i.e., for every prop, including the entries that deleted it),
+ * oldest first unless `options.newestFirst` is `true`. Entries that cleared the object's store are included too, since
+ * they also deleted the object. As with `getFieldHistory()`, entries deleted by `compactOplog()` aren't included.
+ */
+export async function* getObjectHistory(
+  store: string,
+  objectKey: OpLogEntry['objectKey'],
+  options: { newestFirst?: boolean } = {}
+): AsyncGenerator<HistoryEntry, void, void> {
+  const [objectEntries, clearEntries] = await Promise.all([
+    getOplogIndexEntries(objectEntriesRange(store, objectKey)),
+    getOplogIndexEntries(propEntriesRange(store, STORE_CLEAR_OBJECT_KEY, '')),
+  ]);
+
+  // The index sorts each prop's entries by time, but not the entries for different props.
+  const entries = [...objectEntries, ...clearEntries].sort((a, b) => (a.hlcTime < b.hlcTime ? -1 : 1));
+  if (options.newestFirst) {
+    entries.reverse();
+  }
+  for (const entry of entries) {
+    yield { ...entry, time: HLTime.parse(entry.hlcTime) };
+  }
+}
+
+/**
+ * Returns the oplog entries in some range of the `OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME` index (e.g., one returned by
+ * `propEntriesRange()`).
+ */
+function getOplogIndexEntries(range: IDBKeyRange): Promise<OpLogEntry[]> {
   return new Promise((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.OPLOG], 'readonly');
+    txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
+    txReq.onerror = (event) => reject(isEventWithTargetError(event) ? event.target.error : txReq.error);
+
+    const oplogIndex = txReq.objectStore(STORE_NAME.OPLOG).index(OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME);
+    const getAllReq = oplogIndex.getAll(range);
+    getAllReq.onsuccess = () => resolve(getAllReq.result);
+  });
+}
+
+/**
+ * Returns what an object looked like at some point in time (`undefined` if it didn't exist), by applying the oplog
+ * entries that were made up to and including `time` in the order they were made. If `time` is a Date, every entry made
+ * during that millisecond is included.
+ *
+ * Keep in mind that the result is based on the entries that are currently in the oplog: entries that were deleted by
+ * `compactOplog()` can't be taken into account, and neither can changes that were made before the app started using
+ * IDBSideSync (i.e., without a proxied store).
+ */
+export function getObjectVersion(
+  store: string,
+  objectKey: OpLogEntry['objectKey'],
+  time: HLTime | Date
+): Promise<unknown> {
+  const txReq = cachedDb.transaction([STORE_NAME.OPLOG, store], 'readonly');
+  return readObjectVersion(txReq.objectStore(store), objectKey, time);
+}
+
+/**
+ * Changes an object back to what it looked like at some point in time (see `getObjectVersion()`) by writing that
+ * version to a proxied store, so that the change is recorded in the oplog and replicated like any other. Only the props
+ * whose values differ from the current ones are `put()`. If the current object has props that the old version didn't
+ * have, the object is deleted first (i.e., it's re-created with only the old version's props). If the object didn't
+ * exist at that time, it's deleted.
+ *
+ * This needs to be called as part of a "readwrite" transaction, just like any other change made to a proxied store.
+ *
+ * @returns the restored version of the object.
+ */
+export async function restoreObjectVersion(
+  proxiedStore: ProxiedObjectStore,
+  objectKey: OpLogEntry['objectKey'],
+  time: HLTime | Date
+): Promise<unknown> {
+  const [version, current] = await Promise.all([
+    readObjectVersion(proxiedStore, objectKey, time),
+    request(proxiedStore.get(objectKey)),
+  ]);
+
+  if (version === undefined) {
+    if (current !== undefined) {
+      proxiedStore.delete(objectKey);
+    }
+  } else if (
+    isPlainObject(version) &&
+    isPlainObject(current) &&
+    flattenObject(current).every(({ path }) => getPathValue(version, path) !== undefined)
+  ) {
+    const changedProps: Record<string, unknown> = {};
+    for (const prop in version) {
+      if (JSON.stringify(version[prop]) !== JSON.stringify(current[prop])) {
+        changedProps[prop] = version[prop];
+      }
+    }
+    if (Object.keys(changedProps).length > 0) {
+      proxiedStore.put(changedProps, objectKey);
+    }
+  } else {
+    if (current !== undefined) {
+      proxiedStore.delete(objectKey);
+    }
+    proxiedStore.put(version, objectKey);
+  }
+
+  return version;
+}
+
+/**
+ * Does the work for `getObjectVersion()`, using an object store from an existing transaction (which must include the
+ * oplog store).
+ */
+async function readObjectVersion(
+  targetStore: IDBObjectStore,
+  objectKey: OpLogEntry['objectKey'],
+  time: HLTime | Date
+): Promise<unknown> {
+  const isAtOrBefore =
+    time instanceof Date
+      ? (entry: OpLogEntry) => HLTime.parse(entry.hlcTime).millis() <= time.getTime()
+      : (entry: OpLogEntry) => entry.hlcTime <= time.toString();
+  const entries = await readObjectEntries(targetStore, objectKey);
+  return foldObjectEntries(targetStore, objectKey, entries.filter(isAtOrBefore));
+}
+
+/**
+ * Returns ALL of the oplog entries that affect an object, including the ones that cleared its store, in the order they
+ * were made. The `targetStore` must be from a transaction that includes the oplog store.
+ */
+export async function readObjectEntries(
+  targetStore: IDBObjectStore,
+  objectKey: OpLogEntry['objectKey']
+): Promise<OpLogEntry[]> {
+  const oplogIndex = targetStore.transaction.objectStore(STORE_NAME.OPLOG).index(OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME);
+  const clearRange = propEntriesRange(targetStore.name, STORE_CLEAR_OBJECT_KEY, '');
+  const [objectEntries, clearEntries] = await Promise.all([
+    getEntries(oplogIndex, objectEntriesRange(targetStore.name, objectKey), targetStore.name, objectKey),
+    getEntries(oplogIndex, clearRange, targetStore.name, STORE_CLEAR_OBJECT_KEY),
+  ]);
+  return [...objectEntries, ...clearEntries].sort(compareHlcTimes);
+}
+
+/**
+ * Returns the value of an object that results from applying some of its oplog entries (e.g., the ones returned by
+ * `readObjectEntries()` that were made before some time) "in memory", starting with an object that doesn't exist. The
+ * entries are applied exactly like they would be if they were received from other clients in the order they were made.
+ * Nothing is written to `targetStore`; it's only used to find out what its `keyPath` is.
+ */
+export function foldObjectEntries(
+  targetStore: IDBObjectStore,
+  objectKey: OpLogEntry['objectKey'],
+  entries: OpLogEntry[]
+): unknown {
+  const storeState: StoreState = { target: targetStore, clearEntries: [], objects: new Map() };
+  const objectState = getObjectState(storeState, objectKey);
+  const addEntry = (groupEntries: OpLogEntry[], candidate: OpLogEntry) => {
+    groupEntries.push(candidate);
+  };
+  for (const entry of [...entries].sort(compareHlcTimes)) {
+    applyCandidate(storeState, entry, addEntry);
+  }
+  return objectState.value;
+}
+
+/**
+ * An object whose current value in one of the app's stores disagrees with its oplog entries (see `verifyStore()`).
+ * `expected` is `undefined` if, according to the oplog, the object shouldn't exist, and `actual` is `undefined` if it
+ * doesn't.
+ */
+export interface StoreDiscrepancy {
+  objectKey: OpLogEntry['objectKey'];
+  expected: unknown;
+  actual: unknown;
+}
+
+/**
+ * Compares each object in a store with what its oplog entries say it should be (i.e., what `rebuildStore()` would
+ * write), without changing anything. The values of local-only props (see `InitOptions`) aren't compared.
+ *
+ * @returns the objects whose current values disagree with the oplog, including objects that are missing and objects
+ * that don't have any oplog entries (e.g., because they weren't added via a proxied store).
+ */
+export async function verifyStore(storeName: string): Promise<StoreDiscrepancy[]> {
+  const txReq = cachedDb.transaction([STORE_NAME.OPLOG, storeName], 'readonly');
+  const { derivedObjects, currentObjects } = await readStoreObjects(txReq.objectStore(storeName));
+
+  const discrepancies: StoreDiscrepancy[] = [];
+  derivedObjects.forEach(({ objectKey, value }, key) => {
+    const current = currentObjects.get(key);
+    const actual = current ? current.value : undefined;
+    if (!isEqualValue(value, actual === undefined ? actual : omitLocalOnlyProps(storeName, actual))) {
+      discrepancies.push({ objectKey, expected: value, actual });
+    }
+  });
+  currentObjects.forEach(({ objectKey, value }, key) => {
+    if (!derivedObjects.has(key)) {
+      discrepancies.push({ objectKey, expected: undefined, actual: value });
+    }
+  });
+  return discrepancies;
+}
+
+/**
+ * Repairs a store (e.g., after a bug in the app wrote bad data to it) by clearing it and re-creating each of its objects
+ * from the oplog. Each object is derived from its oplog entries exactly like it would be if they were received from
+ * other clients (see `applyOplogEntry()`), including setting the props required by the store's `keyPath`. The current
+ * values of local-only props (see `InitOptions`) are kept. Nothing is recorded in the oplog, since the oplog already
+ * has the changes.
+ *
+ * Note that objects that don't have any oplog entries (e.g., because they weren't added via a proxied store) are
+ * deleted. Use `verifyStore()` to find out what would change.
+ *
+ * `onChange()` listeners (in this tab and others) are called for the objects that the rebuild changed or deleted, as
+ * if their oplog entries had just been received from other clients (i.e., with `source: 'remote'` and `props: ['']`,
+ * since each object is replaced as a whole).
+ *
+ * @returns the number of objects in the rebuilt store.
+ */
+export function rebuildStore(storeName: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.OPLOG, storeName], 'readwrite');
+    const targetStore = txReq.objectStore(storeName);
+
+    let rebuildError: Error | undefined;
+    const abort = (error: Error) => {
+      if (rebuildError) {
+        return;
+      }
+      rebuildError = error;
+      log.error(error);
+      try {
+        txReq.abort();
+      } catch (abortError) {
+        // The transaction is already being aborted (e.g., because a request failed).
+      }
+    };
+
+    let numObjects = 0;
+    const changes: ObjectChange[] = [];
+    txReq.oncomplete = () => {
+      debug && log.debug(`Rebuilt "${storeName}" with ${numObjects} objects from the oplog.`);
+      resolve(numObjects);
+      callChangeListeners(changes);
+      broadcast({ type: 'changes', changes });
+    };
+    txReq.onabort = () => reject(rebuildError || new TransactionAbortedError(txReq.error));
+
+    readStoreObjects(targetStore)
+      .then(({ derivedObjects, currentObjects }) => {
+        targetStore.clear();
+        const addChange = (objectKey: OpLogEntry['objectKey']) =>
+          changes.push({ store: storeName, objectKey, props: [''], source: 'remote' });
+        derivedObjects.forEach((objectState, key) => {
+          const current = currentObjects.get(key);
+          if (!current || !isEqualValue(objectState.value, omitLocalOnlyProps(storeName, current.value))) {
+            addChange(objectState.objectKey);
+          }
+          if (current) {
+            keepLocalOnlyProps(storeName, objectState.value, current.value);
+          }
+          saveObject(targetStore, objectState, abort);
+          numObjects++;
+        });
+        currentObjects.forEach(({ objectKey }, key) => {
+          if (!derivedObjects.has(key)) {
+            addChange(objectKey);
+          }
+        });
+      })
+      .catch(abort);
+  });
+}
+
+/**
+ * Reads a store's objects (keyed by their stringified keys), and derives what they should be from the store's oplog
+ * entries (see `foldObjectEntries()`). Objects that shouldn't exist (e.g., they were deleted) aren't included in
+ * `derivedObjects`. Throws if the store isn't synced (i.e., its changes aren't recorded in the oplog).
+ */
+async function readStoreObjects(
+  targetStore: IDBObjectStore
+): Promise<{ derivedObjects: Map<string, ObjectState>; currentObjects: Map<string, ObjectState> }> {
+  const storeName = targetStore.name;
+  if (syncScope.syncedStores && !syncScope.syncedStores.includes(storeName)) {
+    throw new Error(`${libName}: the "${storeName}" store isn't synced, so it can't be derived from the oplog.`);
+  }
+
+  const oplogIndex = targetStore.transaction.objectStore(STORE_NAME.OPLOG).index(OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME);
+  const [entries, keys, values] = await Promise.all([
+    getEntries(oplogIndex, storeEntriesRange(storeName), storeName),
+    request(targetStore.getAllKeys()) as Promise<OpLogEntry['objectKey'][]>,
+    request(targetStore.getAll()) as Promise<unknown[]>,
+  ]);
+
+  const clearEntries = entries.filter((entry) => isStoreClearKey(entry.objectKey));
+  const entriesByObject = new Map<string, OpLogEntry[]>();
+  for (const entry of entries) {
+    if (!isStoreClearKey(entry.objectKey)) {
+      const key = JSON.stringify(entry.objectKey);
+      entriesByObject.set(key, [...(entriesByObject.get(key) || []), entry]);
+    }
+  }
+
+  const derivedObjects = new Map<string, ObjectState>();
+  entriesByObject.forEach((objectEntries, key) => {
+    const { objectKey } = objectEntries[0];
+    const value = foldObjectEntries(targetStore, objectKey, [...objectEntries, ...clearEntries]);
+    if (value !== undefined) {
+      derivedObjects.set(key, { objectKey, entries: objectEntries, value, changed: true });
+    }
+  });
+
+  const currentObjects = new Map<string, ObjectState>();
+  keys.forEach((objectKey, i) => {
+    currentObjects.set(JSON.stringify(objectKey), { objectKey, entries: [], value: values[i], changed: false });
+  });
+
+  return { derivedObjects, currentObjects };
+}
+
+/**
+ * Returns a copy of an object without the values of its store's local-only props (see `InitOptions`).
+ */
+function omitLocalOnlyProps(store: string, value: unknown): unknown {
+  const localOnlyProps = (syncScope.localOnlyProps && syncScope.localOnlyProps[store]) || [];
+  return localOnlyProps.reduce((result: unknown, prop) => omitPathValue(result, toPropPath(prop)), value);
+}
+
+/**
+ * Copies the values of a store's local-only props (see `InitOptions`) from one object to another.
+ */
+function keepLocalOnlyProps(store: string, target: unknown, source: unknown): void {
+  const localOnlyProps = (syncScope.localOnlyProps && syncScope.localOnlyProps[store]) || [];
+  if (!isPlainObject(target)) {
+    return;
+  }
+  for (const prop of localOnlyProps) {
+    const path = toPropPath(prop);
+    const value = getPathValue(source, path);
+    if (value !== undefined) {
+      setPathValue(target, path, value);
+    }
+  }
+}
+
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === undefined || b === undefined) {
+    return a === b;
+  }
+  return toCanonicalJson(a) === toCanonicalJson(b);
+}
+
+/**
+ * Applies oplog entries in batches of `options.batchSize` (see `applyOplogEntry()` for how each entry is applied). Each
+ * batch is applied in a single transaction in which the existing oplog entries for each affected object are read once,
+ * the entries are applied "in memory" (in the order they were passed in), and each affected object is written once. If
+ * any entry in a batch can't be applied (e.g., the resulting object can't be saved), none of the entries in that batch
+ * are applied. Note that batches that were applied before the failed batch are NOT rolled back. Entries that aren't
+ * valid OpLogEntry objects are rejected without affecting the rest of the entries.
+ *
+ * Entries that are part of a change set (see OpLogEntry) are only applied once ALL of the change set's entries have been
+ * received; until then, they're kept in the META store (i.e., they can be received by separate calls, even after the
+ * app restarts). Once the last of them is received, all of them are applied, in the order they were recorded.
+ *
+ * Entries that were recorded by a client running an older version of the app are translated first, using the migrations
+ * registered with `registerMigration()` (i.e., the results have the translated entries). Entries that were recorded by
+ * a client running a NEWER version of the app (i.e., whose `schemaVersion` is higher than the database's version) can't
+ * be translated, so they're kept in the META store until the database has been upgraded to their version; they're
+ * applied by `init()`. Entries for stores that have a validator (see `registerEntryValidator()`) are rejected instead of
+ * applied if the validator says they're invalid.
+ *
+ * @returns the result for each entry (i.e., whether it was applied, ignored, rejected, or is pending because other
+ * entries of its change set haven't been received yet or because it was recorded by a newer version of the app), in
+ * the order they were passed in.
+ */
+export async function applyOplogEntries(
+  candidates: OpLogEntry[],
+  options: { batchSize?: number } = {}
+): Promise<ApplyOplogEntryResult[]> {
+  const migratedCandidates = migrateEntries(candidates);
+  const results = new Map<OpLogEntry, ApplyOplogEntryResult>();
+  for (const candidate of migratedCandidates) {
+    try {
+      throwIfInvalidOpLogEntry(candidate);
+    } catch (error) {
+      results.set(candidate, { entry: candidate, status: 'rejected', reason: error.message });
+    }
+  }
+
+  const validCandidates = migratedCandidates.filter((candidate) => !results.has(candidate));
+  for (const candidate of await holdBackNewerEntries(validCandidates)) {
+    results.set(candidate, {
+      entry: candidate,
+      status: 'pending',
+      reason: `recorded with schema version ${candidate.schemaVersion}; waiting for the database to be upgraded`,
+    });
+  }
+
+  const currentCandidates = validCandidates.filter((candidate) => !results.has(candidate));
+  const { entries, pendingEntries } = await collectChangeSets(currentCandidates);
+  for (const result of await applyOplogBatches(entries, options)) {
+    results.set(result.entry, result);
+  }
+  return migratedCandidates.map((candidate) =>
+    pendingEntries.has(candidate)
+      ? { entry: candidate, status: 'pending', reason: `waiting for the rest of change set ${candidate.changeSetId}` }
+      : (results.get(candidate) as ApplyOplogEntryResult)
+  );
+}
+
+/**
+ * Holds back entries that were recorded by a client running a newer version of the app (i.e., whose `schemaVersion` is
+ * higher than the database's version) by adding them to the pending newer entries in the META store. They can't be
+ * translated (see `registerMigration()`); `applyUpgradedEntries()` applies them once the database has been upgraded.
+ * The entries must be valid (see `throwIfInvalidOpLogEntry()`).
+ *
+ * @returns the entries that were held back.
+ */
+function holdBackNewerEntries(candidates: OpLogEntry[]): Promise<OpLogEntry[]> {
+  const newerEntries = candidates.filter((candidate) => (candidate.schemaVersion || 0) > cachedDb.version);
+  if (newerEntries.length === 0) {
+    return Promise.resolve([]);
+  }
+
+  return new Promise((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.META], 'readwrite');
+    txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
+    txReq.onerror = (event) => {
+      const error = isEventWithTargetError(event) ? event.target.error : txReq.error;
+      log.error('Failed to update pending newer entries:', error);
+      reject(new Error(`${libName} Failed to update pending newer entries`));
+    };
+    txReq.oncomplete = () => resolve(newerEntries);
+
+    const metaStore = txReq.objectStore(STORE_NAME.META);
+    request(metaStore.get(PENDING_NEWER_ENTRIES_OBJ_KEY))
+      .then((storedEntries) => {
+        // An entry that's received again replaces the one that's already pending.
+        const newerTimes = newerEntries.map((entry) => entry.hlcTime);
+        const pendingEntries = ((storedEntries || []) as OpLogEntry[]).filter(
+          (entry) => !newerTimes.includes(entry.hlcTime)
+        );
+        debug && log.debug(`Holding back ${newerEntries.length} oplog entries recorded with a newer schema version.`);
+        metaStore.put([...pendingEntries, ...newerEntries], PENDING_NEWER_ENTRIES_OBJ_KEY);
+      })
+      .catch((error) => {
+        log.error(error);
+        txReq.abort();
+      });
+  });
+}
+
+/**
+ * Applies the entries that were held back by `holdBackNewerEntries()` whose schema version the database has been
+ * upgraded to, and removes them from the pending newer entries.
+ */
+async function applyUpgradedEntries(): Promise<void> {
+  const storedEntries = await new Promise<OpLogEntry[] | undefined>((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.META], 'readonly');
+    txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
+    txReq.onerror = (event) => reject(isEventWithTargetError(event) ? event.target.error : txReq.error);
+    const getReq = txReq.objectStore(STORE_NAME.META).get(PENDING_NEWER_ENTRIES_OBJ_KEY);
+    txReq.oncomplete = () => resolve(getReq.result);
+  });
+  const upgradedEntries = (storedEntries || []).filter((entry) => (entry.schemaVersion || 0) <= cachedDb.version);
+  if (upgradedEntries.length === 0) {
+    return;
+  }
+
+  debug &&
+    log.debug(`Applying ${upgradedEntries.length} oplog entries that were recorded with a newer schema version.`);
+  try {
+    await applyOplogEntries(upgradedEntries);
+  } catch (error) {
+    // The entries stay pending; applying them is attempted again the next time `init()` is called.
+    log.error('Failed to apply oplog entries that were recorded with a newer schema version:', error);
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.META], 'readwrite');
+    txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
+    txReq.onerror = (event) => reject(isEventWithTargetError(event) ? event.target.error : txReq.error);
+    txReq.oncomplete = () => resolve();
+    const metaStore = txReq.objectStore(STORE_NAME.META);
+    const getReq = metaStore.get(PENDING_NEWER_ENTRIES_OBJ_KEY);
+    getReq.onsuccess = () => {
+      const upgradedTimes = upgradedEntries.map((entry) => entry.hlcTime);
+      const pendingEntries = ((getReq.result || []) as OpLogEntry[]).filter(
+        (entry) => !upgradedTimes.includes(entry.hlcTime)
+      );
+      metaStore.put(pendingEntries, PENDING_NEWER_ENTRIES_OBJ_KEY);
+    };
+  });
+}
+
+/**
+ * Translates entries that were recorded with an older schema (see `registerMigration()`). Anything that isn't an
+ * object is passed through as-is so that it's rejected like any other invalid entry.
+ */
+function migrateEntries(candidates: OpLogEntry[]): OpLogEntry[] {
+  return candidates.map((candidate) =>
+    candidate && typeof candidate === 'object' ? migrateEntry(candidate, cachedDb.version) : candidate
+  );
+}
+
+/**
+ * Applies entries in batches (see `applyOplogEntries()`), except for those that aren't synced (see `InitOptions`); those
+ * are ignored. The entries must be valid (see `throwIfInvalidOpLogEntry()`).
+ */
+async function applyOplogBatches(
+  candidates: OpLogEntry[],
+  options: { batchSize?: number } = {}
+): Promise<ApplyOplogEntryResult[]> {
+  const syncedCandidates = candidates.map((candidate) => toSyncedEntry(candidate));
+  const entries = syncedCandidates.filter((candidate): candidate is OpLogEntry => candidate !== null);
+
+  const batchSize = options.batchSize && options.batchSize > 0 ? options.batchSize : DEFAULT_APPLY_BATCH_SIZE;
+  const batchResults: ApplyOplogEntryResult[] = [];
+  for (let i = 0; i < entries.length; i += batchSize) {
+    batchResults.push(...(await applyOplogBatch(entries.slice(i, i + batchSize))));
+  }
+
+  let batchIndex = 0;
+  return candidates.map((candidate, i) =>
+    syncedCandidates[i] === null
+      ? { entry: candidate, status: 'ignored', reason: `the entry's store or prop isn't synced` }
+      : { ...batchResults[batchIndex++], entry: candidate }
+  );
+}
+
+/**
+ * Holds back the entries of change sets (see OpLogEntry) that haven't been received in full yet by adding them to the
+ * pending change sets in the META store, and releases ALL of a change set's entries (including any that were held back
+ * by earlier calls) once the rest of them have been received. Entries that aren't part of a change set, or that are
+ * already in the oplog (e.g., because they're being received again), aren't held back. The entries must be valid (see
+ * `throwIfInvalidOpLogEntry()`).
+ *
+ * @returns the entries that can be applied, in the order they were passed in (the entries of a change set that is now
+ * complete are inserted, in the order they were recorded, in place of the entry that completed it), and the entries
+ * that were held back.
+ */
+function collectChangeSets(
+  candidates: OpLogEntry[]
+): Promise<{ entries: OpLogEntry[]; pendingEntries: Set<OpLogEntry> }> {
+  const isChangeSetMember = (candidate: OpLogEntry) =>
+    candidate.changeSetId !== undefined && candidate.changeSetSize !== 1;
+  if (!candidates.some(isChangeSetMember)) {
+    return Promise.resolve({ entries: candidates, pendingEntries: new Set() });
+  }
+
+  return new Promise((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.META, STORE_NAME.OPLOG], 'readwrite');
+    txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
+    txReq.onerror = (event) => {
+      const error = isEventWithTargetError(event) ? event.target.error : txReq.error;
+      log.error('Failed to update pending change sets:', error);
+      reject(new Error(`${libName} Failed to update pending change sets`));
+    };
+
+    const entries: OpLogEntry[] = [];
+    const pendingEntries = new Set<OpLogEntry>();
+    txReq.oncomplete = () => resolve({ entries, pendingEntries });
+
+    const metaStore = txReq.objectStore(STORE_NAME.META);
+    const oplogStore = txReq.objectStore(STORE_NAME.OPLOG);
+    const members = candidates.filter(isChangeSetMember);
+    Promise.all([
+      request(metaStore.get(PENDING_CHANGE_SETS_OBJ_KEY)),
+      Promise.all(members.map((member) => request(oplogStore.getKey(member.hlcTime)))),
+    ])
+      .then(([storedChangeSets, existingKeys]) => {
+        const pendingChangeSets = (storedChangeSets || {}) as Record<string, OpLogEntry[]>;
+        const existingTimes = existingKeys.filter((key) => key !== undefined);
+
+        for (const candidate of candidates) {
+          if (!isChangeSetMember(candidate) || existingTimes.includes(candidate.hlcTime)) {
+            entries.push(candidate);
+            continue;
+          }
+
+          const changeSetId = candidate.changeSetId as string;
+          const changeSet = (pendingChangeSets[changeSetId] || []).filter(
+            (member) => member.hlcTime !== candidate.hlcTime
+          );
+          changeSet.push(candidate);
+
+          const lastEntry = changeSet.find((member) => member.changeSetSize !== undefined);
+          if (lastEntry && changeSet.length >= (lastEntry.changeSetSize as number)) {
+            debug && log.debug(`Received all ${changeSet.length} oplog entries of change set ${changeSetId}.`);
+            delete pendingChangeSets[changeSetId];
+            changeSet.forEach((member) => pendingEntries.delete(member));
+            entries.push(...changeSet.sort(compareHlcTimes));
+          } else {
+            pendingChangeSets[changeSetId] = changeSet;
+            pendingEntries.add(candidate);
+          }
+        }
+
+        metaStore.put(pendingChangeSets, PENDING_CHANGE_SETS_OBJ_KEY);
+      })
+      .catch((error) => {
+        log.error(error);
+        txReq.abort();
+      });
+  });
+}
+
+/**
+ * Deletes the pending change sets (see `applyOplogEntries()`) that were recorded before `olderThan` (i.e., whose
+ * `changeSetId` is older), so that change sets whose other entries are never received (e.g., because the client that
+ * recorded them stopped syncing) don't take up space forever. The entries of a deleted change set are never applied; if
+ * any of them are received again, they're held back again.
+ *
+ * @returns the number of entries that were deleted.
+ */
+export function deletePendingChangeSets(olderThan: Date): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.META], 'readwrite');
+    txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
+    txReq.onerror = (event) => {
+      const error = isEventWithTargetError(event) ? event.target.error : txReq.error;
+      log.error('Failed to delete pending change sets:', error);
+      reject(new Error(`${libName} Failed to delete pending change sets`));
+    };
+
+    let numDeleted = 0;
+    txReq.oncomplete = () => {
+      debug && log.debug(`Deleted ${numDeleted} oplog entries of pending change sets.`);
+      resolve(numDeleted);
+    };
+
+    const metaStore = txReq.objectStore(STORE_NAME.META);
+    const getReq = metaStore.get(PENDING_CHANGE_SETS_OBJ_KEY);
+    getReq.onsuccess = () => {
+      const pendingChangeSets = getReq.result as Record<string, OpLogEntry[]> | undefined;
+      if (!pendingChangeSets) {
+        return;
+      }
+      const olderThanTime = olderThan.toISOString();
+      for (const changeSetId of Object.keys(pendingChangeSets)) {
+        if (changeSetId < olderThanTime) {
+          numDeleted += pendingChangeSets[changeSetId].length;
+          delete pendingChangeSets[changeSetId];
+        }
+      }
+      if (numDeleted > 0) {
+        metaStore.put(pendingChangeSets, PENDING_CHANGE_SETS_OBJ_KEY);
+      }
+    };
+  });
+}
+
+/**
+ * Attempt to apply an oplog entry to a specified store + objectKey + prop. In other words, update an existing object in
+ * the appropriate object store, or create a new one, per the _operation_ represented by an oplog entry object. Then add
+ * the entry to the local oplog entries store.
+ *
+ * If the referenced objectKey + prop already exists, it will only be updated if the oplog entry is the most recent one
+ * we know about for that store + objectKey + prop. If an oplog entry with a more recent `hlcTime` is found in the local
+ * oplog store, the passed-in entry will not be applied or added to the local oplog store. (This "last-writer-wins"
+ * behavior can be changed for specific stores/props by registering a different conflict resolver; see
+ * `registerConflictResolver()`.)
+ *
+ * Tombstone entries (i.e., `operation: 'delete'`) delete any of the object's props that were set before the tombstone's
+ * time. Similarly, an entry that sets a prop will be ignored if the object was deleted more recently; this prevents a
+ * "stale" entry from another client from resurrecting a deleted object unless it is causally newer.
+ *
+ * Important: all of the IndexedDB operations performed by this function happen in the same transaction. This ensures
+ * that, if any one of those operations fails, the transaction can be aborted and none of the operations will persist.
+ * If you need to apply more than one entry, use `applyOplogEntries()` instead; it's much faster.
+ *
+ * If the entry is part of a change set (see OpLogEntry), it's only applied once all of the change set's other entries
+ * have been received too; until then, the result's status is 'pending'. Entries are also translated, ignored, and
+ * validated just like those passed to `applyOplogEntries()`, except that an entry that isn't a valid OpLogEntry object
+ * causes an `InvalidOpLogEntryError` to be thrown.
+ *
+ * @returns a result indicating whether the entry was applied, ignored (e.g., because it was stale), rejected (i.e., by
+ * the validator registered for its store; see `registerEntryValidator()`), or is pending.
+ */
+export async function applyOplogEntry(candidate: OpLogEntry): Promise<ApplyOplogEntryResult> {
+  try {
+    throwIfInvalidOpLogEntry(candidate);
+  } catch (error) {
+    throw new InvalidOpLogEntryError(candidate, error.message);
+  }
+  const [result] = await applyOplogEntries([candidate]);
+  return result;
+}
+
+/**
+ * The in-memory state of an object while a batch of oplog entries is being applied: ALL of the oplog entries for the
+ * object (i.e., those that were in the oplog store plus any from the batch that have been applied) and its current
+ * value (`undefined` if the object doesn't exist).
+ */
+interface ObjectState {
+  objectKey: OpLogEntry['objectKey'];
+  entries: OpLogEntry[];
+  value: unknown;
+  changed: boolean;
+}
+
+/**
+ * The in-memory state of an object store while a batch of oplog entries is being applied. `clearEntries` are the oplog
+ * entries for the store itself (i.e., entries with `objectKey: STORE_CLEAR_OBJECT_KEY`). If the batch includes a "clear"
+ * entry for the store, `objects` has the state of EVERY object in the store; otherwise it only has the state of the
+ * objects referenced by the batch's entries.
+ */
+interface StoreState {
+  target: IDBObjectStore;
+  clearEntries: OpLogEntry[];
+  objects: Map<string, ObjectState>;
+}
+
+/**
+ * Applies a batch of entries in a single transaction (see `applyOplogEntries()`). The entries must be valid (see
+ * `throwIfInvalidOpLogEntry()`); callers check them beforehand so that invalid entries can be rejected individually.
+ */
+function applyOplogBatch(candidates: OpLogEntry[]): Promise<ApplyOplogEntryResult[]> {
+  return new Promise((resolve, reject) => {
+    try {
+      for (const candidate of candidates) {
+        tickClockPast(candidate);
+      }
+    } catch (error) {
+      // This will happen if an oplog entry's time is too far in the future...
+      reject(error);
+      return;
+    }
+
+    if (candidates.length === 0) {
+      resolve([]);
+      return;
+    }
+
+    const rejectionReasons = findRejectionReasons(candidates);
+
+    const storeNames = candidates
+      .map((candidate) => candidate.store)
+      .filter((storeName, index, allStoreNames) => allStoreNames.indexOf(storeName) === index);
+
+    const txReq = cachedDb.transaction([STORE_NAME.OPLOG, STORE_NAME.META, ...storeNames], 'readwrite');
+
+    // If something goes wrong, the transaction is aborted and the promise is rejected with the first error that was
+    // encountered (vs. a generic DOMException from IDB).
+    let batchError: Error | undefined;
+    const abort = (error: Error) => {
+      if (batchError) {
+        return;
+      }
+      batchError = error;
+      log.error(error);
+      try {
+        txReq.abort();
+      } catch (abortError) {
+        // The transaction is already being aborted (e.g., because a request failed).
+      }
+    };
+
+    const results: ApplyOplogEntryResult[] = [];
+    txReq.oncomplete = () => {
+      resolve(results);
+      const appliedEntries = results.filter((result) => result.status === 'applied').map((result) => result.entry);
+      notifyChangeListeners(appliedEntries, 'remote');
+      if (appliedEntries.length > 0) {
+        broadcast({ type: 'entries', entries: appliedEntries, source: 'remote' });
+      }
+    };
+    txReq.onabort = () => reject(batchError || new TransactionAbortedError(txReq.error));
+
+    loadBatchState(txReq, candidates, storeNames)
+      .then((stores) => {
+        const oplogStore = txReq.objectStore(STORE_NAME.OPLOG);
+        const newEntries: OpLogEntry[] = [];
+        const newEntryTimes: string[] = [];
+
+        // Use this function to add an entry to the in-memory list of oplog entries once it's been established that it
+        // should be applied. Note that, in theory, it may already exist there (e.g., it's possible for a sync to happen
+        // in which known oplog entries are received again). It's only added to the Merkle tree if it doesn't, though,
+        // since inserting the same time into the tree twice would "cancel out" the first insertion.
+        const addEntry = (entries: OpLogEntry[], candidate: OpLogEntry) => {
+          if (!entries.some((entry) => entry.hlcTime === candidate.hlcTime)) {
+            entries.push(candidate);
+            newEntryTimes.push(candidate.hlcTime);
+          }
+          newEntries.push(candidate);
+        };
+
+        for (const candidate of candidates) {
+          const rejectionReason = rejectionReasons.get(candidate);
+          results.push(
+            rejectionReason
+              ? { entry: candidate, status: 'rejected', reason: rejectionReason }
+              : applyCandidate(stores.get(candidate.store) as StoreState, candidate, addEntry)
+          );
+        }
+
+        for (const entry of newEntries) {
+          const oplogPutReq = oplogStore.put(entry);
+          oplogPutReq.onerror = () => {
+            abort(new Error(`${libName} encountered an error while attempting to add an object to "${OPLOG_STORE}".`));
+          };
+        }
+
+        if (newEntryTimes.length > 0) {
+          addToOplogMerkle(txReq, newEntryTimes);
+        }
+
+        stores.forEach((storeState) => {
+          storeState.objects.forEach((objectState) => {
+            if (objectState.changed) {
+              saveObject(storeState.target, objectState, abort);
+            }
+          });
+        });
+
+        debug && log.debug(`Applied batch of ${candidates.length} oplog entries.`);
+      })
+      .catch(abort);
+  });
+}
+
+/**
+ * Validates a batch of entries using the app's validators (see `registerEntryValidator()`). The other entries of a
+ * rejected entry's change set are rejected too, since a change set is meant to be applied as a whole.
+ *
+ * @returns the reason each rejected entry was rejected.
+ */
+function findRejectionReasons(candidates: OpLogEntry[]): Map<OpLogEntry, string> {
+  const reasons = new Map<OpLogEntry, string>();
+  const rejectedChangeSets = new Map<string, OpLogEntry>();
+  for (const candidate of candidates) {
+    const reason = findValidationError(candidate);
+    if (reason) {
+      log.warn(`Rejected oplog entry (${reason}):`, candidate);
+      reasons.set(candidate, reason);
+      if (candidate.changeSetId !== undefined && !rejectedChangeSets.has(candidate.changeSetId)) {
+        rejectedChangeSets.set(candidate.changeSetId, candidate);
+      }
+    }
+  }
+
+  for (const candidate of candidates) {
+    const rejected = candidate.changeSetId !== undefined ? rejectedChangeSets.get(candidate.changeSetId) : undefined;
+    if (rejected && !reasons.has(candidate)) {
+      reasons.set(candidate, `another entry of its change set was rejected (${rejected.hlcTime})`);
+    }
+  }
+  return reasons;
+}
+
+/**
+ * Ensure that our HLClock is set to a time that occurs after any other time we encounter (even if we end up not
+ * applying the oplog entry). Note that this will throw if the oplog entry's time is too far in the future.
+ */
+function tickClockPast(candidate: OpLogEntry): void {
+  const candidateHLTime = HLTime.parse(candidate.hlcTime);
+  if (candidateHLTime.node() === HLClock.time().node()) {
+    log.warn(`Encountered oplog entry with the same node ID:`, candidateHLTime.node());
+  }
+
+  const currentHLTime = HLClock.time().toString();
+  if (candidateHLTime.toString() > currentHLTime) {
+    debug &&
+      log.debug(`Encountered oplog entry with more recent HLTime; updating time.`, {
+        currentTime: currentHLTime,
+        oplogEntryTime: candidate.hlcTime,
+      });
+
+    HLClock.tickPast(candidateHLTime);
+
+    debug &&
+      log.debug(`Updated local HL time.`, {
+        previousTime: currentHLTime,
+        currentTime: HLClock.time().toString(),
+      });
+  }
+}
+
+/**
+ * Reads everything needed to apply a batch of oplog entries "in memory": the existing oplog entries (via the
+ * `OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME` index) and current values for each object referenced by the batch. All of the
+ * requests are made at once; IndexedDB processes them in order, without waiting for us to handle each result.
+ */
+async function loadBatchState(
+  txReq: IDBTransaction,
+  candidates: OpLogEntry[],
+  storeNames: string[]
+): Promise<Map<string, StoreState>> {
+  const oplogIndex = txReq.objectStore(STORE_NAME.OPLOG).index(OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME);
+  const stores = new Map<string, StoreState>();
+  const requests: Promise<void>[] = [];
+
+  for (const storeName of storeNames) {
+    const storeState: StoreState = { target: txReq.objectStore(storeName), clearEntries: [], objects: new Map() };
+    stores.set(storeName, storeState);
+
+    const clearRange = propEntriesRange(storeName, STORE_CLEAR_OBJECT_KEY, '');
+    requests.push(
+      getEntries(oplogIndex, clearRange, storeName, STORE_CLEAR_OBJECT_KEY).then((entries) => {
+        storeState.clearEntries = entries;
+      })
+    );
+
+    const storeCandidates = candidates.filter((candidate) => candidate.store === storeName);
+
+    if (storeCandidates.some((candidate) => candidate.operation === 'clear')) {
+      // Applying a "clear" entry affects every object in the store, so we need the state of all of them.
+      requests.push(
+        Promise.all([
+          getEntries(oplogIndex, storeEntriesRange(storeName), storeName),
+          request(storeState.target.getAllKeys()) as Promise<IDBValidKey[]>,
+          request(storeState.target.getAll()),
+        ]).then(([entries, keys, values]) => {
+          keys.forEach((key, i) => {
+            getObjectState(storeState, key as OpLogEntry['objectKey']).value = (values as unknown[])[i];
+          });
+          for (const entry of entries) {
+            if (!isStoreClearKey(entry.objectKey)) {
+              getObjectState(storeState, entry.objectKey).entries.push(entry);
+            }
+          }
+        })
+      );
+      continue;
+    }
+
+    for (const candidate of storeCandidates) {
+      if (storeState.objects.has(JSON.stringify(candidate.objectKey))) {
+        continue;
+      }
+      const objectState = getObjectState(storeState, candidate.objectKey);
+      const range = objectEntriesRange(storeName, candidate.objectKey);
+      requests.push(
+        getEntries(oplogIndex, range, storeName, candidate.objectKey).then((entries) => {
+          objectState.entries = entries;
+        })
+      );
+      requests.push(
+        request(storeState.target.get(candidate.objectKey)).then((value) => {
+          objectState.value = value;
+        })
+      );
+    }
+  }
+
+  await Promise.all(requests);
+  return stores;
+}
+
+/**
+ * Gets the oplog entries in some range of the `OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME` index. Invalid entries are
+ * ignored, and an error is thrown if the range includes an entry for some other store/object (which would mean there's
+ * a problem with the IDBKeyRange).
+ */
+async function getEntries(
+  oplogIndex: IDBIndex,
+  range: IDBKeyRange,
+  store: string,
+  objectKey?: OpLogEntry['objectKey']
+): Promise<OpLogEntry[]> {
+  const entries = (await request(oplogIndex.getAll(range))) as OpLogEntry[];
+
+  return entries.filter((entry) => {
     try {
-      throwIfInvalidOpLogEntry(candidate);
+      throwIfInvalidOpLogEntry(entry);
     } catch (error) {
-      reject(new InvalidOpLogEntryError(candidate, error.message));
+      log.warn(
+        `encountered an invalid oplog entry in "${OPLOG_STORE}" store. This might mean that an oplog entry` +
+          `was manually edited or created in an invalid way somewhere. The entry will be ignored.`,
+        JSON.stringify(error.message)
+      );
+      return false;
     }
 
-    let candidateHLTime;
-    try {
-      candidateHLTime = HLTime.parse(candidate.hlcTime);
-    } catch (error) {
-      reject(new InvalidOpLogEntryError(candidate, error.message));
+    if (entry.store !== store) {
+      throw new UnexpectedOpLogEntryError('store', store, entry.store);
+    } else if (objectKey !== undefined && JSON.stringify(entry.objectKey) !== JSON.stringify(objectKey)) {
+      throw new UnexpectedOpLogEntryError('objectKey', JSON.stringify(objectKey), JSON.stringify(entry.objectKey));
+    }
+
+    return true;
+  });
+}
+
+function getObjectState(storeState: StoreState, objectKey: OpLogEntry['objectKey']): ObjectState {
+  // Note that the map is keyed by stringified object keys since arrays can't be compared by reference.
+  const key = JSON.stringify(objectKey);
+  let objectState = storeState.objects.get(key);
+  if (!objectState) {
+    objectState = { objectKey, entries: [], value: undefined, changed: false };
+    storeState.objects.set(key, objectState);
+  }
+  return objectState;
+}
+
+function isStoreClearKey(objectKey: OpLogEntry['objectKey']): boolean {
+  return Array.isArray(objectKey) && objectKey.length === 0;
+}
+
+/**
+ * Applies a single oplog entry to the in-memory state of its store/object (see `applyOplogEntry()` for the rules).
+ * `addEntry()` is used to record that the entry should be added to the oplog.
+ */
+function applyCandidate(
+  storeState: StoreState,
+  candidate: OpLogEntry,
+  addEntry: (entries: OpLogEntry[], candidate: OpLogEntry) => void
+): ApplyOplogEntryResult {
+  const objectState = candidate.operation === 'clear' ? null : getObjectState(storeState, candidate.objectKey);
+  const groupEntries = objectState ? objectState.entries : storeState.clearEntries;
+  const candidateProp = JSON.stringify(candidate.prop);
+
+  if (objectState && candidate.operation === 'increment') {
+    return applyIncrement(storeState, objectState, candidate, addEntry);
+  } else if (objectState && isCollectionOperation(candidate)) {
+    return applyCollectionOperation(storeState, objectState, candidate, addEntry);
+  }
+
+  // If the existing entry that currently "wins" for the same prop also wins against the candidate, then the candidate
+  // entry is obsolete and we'll ignore it. By default (i.e., last-writer-wins) this means that an existing entry has a
+  // more recent HLC timestamp; see `registerConflictResolver()` for the alternatives. Note that, since tombstones are
+  // recorded with `prop: ''`, this also prevents an older tombstone from deleting a non-object value that was set more
+  // recently (and vice versa). Increments, and changes to the elements of a set or the characters of a text, don't
+  // compete with entries that set the prop (see `applyIncrement()` and `applyCollectionOperation()`).
+  const existing = findWinningEntry(
+    groupEntries.filter((entry) => !isMergedOperation(entry) && JSON.stringify(entry.prop) === candidateProp)
+  );
+  if (existing && existing.hlcTime !== candidate.hlcTime && resolveConflict(existing, candidate) !== candidate) {
+    debug && log.debug(`WON'T apply oplog entry; existing entry wins:`, { candidate, existing });
+    const reason =
+      existing.hlcTime > candidate.hlcTime
+        ? `a newer entry exists (${existing.hlcTime})`
+        : `a conflicting entry wins (${existing.hlcTime})`;
+    return { entry: candidate, status: 'ignored', reason };
+  }
+
+  debug && log.debug(`applying oplog entry; it wins against any existing entry with matching store/key/prop.`);
+
+  if (!objectState) {
+    addEntry(storeState.clearEntries, candidate);
+    applyClear(storeState, candidate);
+  } else if (candidate.operation === 'delete') {
+    addEntry(objectState.entries, candidate);
+    applyDeletion(storeState, objectState, candidate);
+  } else {
+    const ignoreReason = getDeletedOrReplacedReason(storeState, objectState, candidate);
+    if (ignoreReason) {
+      return { entry: candidate, status: 'ignored', reason: ignoreReason };
+    }
+    addEntry(objectState.entries, candidate);
+    applyPut(storeState, objectState, candidate);
+  }
+
+  return { entry: candidate, status: 'applied' };
+}
+
+/**
+ * Applies an "increment" entry by adding its value to the current value of its prop. Unlike entries that set a prop,
+ * increments don't conflict with each other; every increment made after the prop was most recently set contributes to
+ * its value. An increment is ignored if it was already applied, if the prop was set after the increment was made (i.e.,
+ * the counter was "reset"), or for the same reasons that an entry setting the prop would be ignored.
+ */
+function applyIncrement(
+  storeState: StoreState,
+  objectState: ObjectState,
+  candidate: OpLogEntry,
+  addEntry: (entries: OpLogEntry[], candidate: OpLogEntry) => void
+): ApplyOplogEntryResult {
+  // Applying the same increment twice would count it twice.
+  if (objectState.entries.some((entry) => entry.hlcTime === candidate.hlcTime)) {
+    debug && log.debug(`WON'T apply oplog entry; increment was already applied:`, candidate);
+    return { entry: candidate, status: 'ignored', reason: 'the increment was already applied' };
+  }
+
+  const candidateProp = JSON.stringify(candidate.prop);
+  const lastSet = findWinningEntry(
+    objectState.entries.filter((entry) => entry.operation === undefined && JSON.stringify(entry.prop) === candidateProp)
+  );
+  if (lastSet && lastSet.hlcTime > candidate.hlcTime) {
+    debug && log.debug(`WON'T apply oplog entry; prop was set more recently:`, { candidate, lastSet });
+    return { entry: candidate, status: 'ignored', reason: `the prop was set more recently (${lastSet.hlcTime})` };
+  }
+
+  const ignoreReason = getDeletedOrReplacedReason(storeState, objectState, candidate);
+  if (ignoreReason) {
+    return { entry: candidate, status: 'ignored', reason: ignoreReason };
+  }
+
+  addEntry(objectState.entries, candidate);
+  objectState.changed = true;
+
+  const existingValue = objectState.value;
+  const newValue: Record<string, unknown> =
+    existingValue && typeof existingValue === 'object' ? { ...existingValue } : {};
+  const path = toPropPath(candidate.prop);
+  setPathValue(newValue, path, incrementValue(getPathValue(newValue, path), candidate.value as number));
+  setKeyPathProps(storeState.target, candidate.objectKey, newValue);
+  objectState.value = newValue;
+
+  return { entry: candidate, status: 'applied' };
+}
+
+/**
+ * Applies an entry that adds/removes an element to/from a set prop, or inserts/deletes text in a text prop, by
+ * re-calculating the value of the prop (see `materializeCollectionProps()`). Unlike entries that set a prop, these
+ * entries don't conflict with each other. Just like an increment, an entry is ignored if the prop was set after the
+ * entry was made, or for the same reasons that an entry setting the prop would be ignored.
+ */
+function applyCollectionOperation(
+  storeState: StoreState,
+  objectState: ObjectState,
+  candidate: OpLogEntry,
+  addEntry: (entries: OpLogEntry[], candidate: OpLogEntry) => void
+): ApplyOplogEntryResult {
+  const candidateProp = JSON.stringify(candidate.prop);
+  const lastSet = findWinningEntry(
+    objectState.entries.filter((entry) => entry.operation === undefined && JSON.stringify(entry.prop) === candidateProp)
+  );
+  if (lastSet && lastSet.hlcTime > candidate.hlcTime) {
+    debug && log.debug(`WON'T apply oplog entry; prop was set more recently:`, { candidate, lastSet });
+    return { entry: candidate, status: 'ignored', reason: `the prop was set more recently (${lastSet.hlcTime})` };
+  }
+
+  const ignoreReason = getDeletedOrReplacedReason(storeState, objectState, candidate);
+  if (ignoreReason) {
+    return { entry: candidate, status: 'ignored', reason: ignoreReason };
+  }
+
+  addEntry(objectState.entries, candidate);
+  objectState.changed = true;
+
+  const existingValue = objectState.value;
+  const newValue: Record<string, unknown> =
+    existingValue && typeof existingValue === 'object' ? { ...existingValue } : {};
+  materializeCollectionProps(storeState, objectState, newValue);
+  setKeyPathProps(storeState.target, candidate.objectKey, newValue);
+  objectState.value = newValue;
+
+  return { entry: candidate, status: 'applied' };
+}
+
+/**
+ * Sets the value of each of an object's set and text props (i.e., props with "addElement"/"removeElement" or
+ * "insertText"/"deleteText" entries) to the value that results from the changes made since the prop was last set,
+ * deleted, or replaced by setting one of its "ancestors" (see `findCollectionEntries()`). Props whose value was set or
+ * replaced after all of those changes were made are left alone.
+ */
+function materializeCollectionProps(
+  storeState: StoreState,
+  objectState: ObjectState,
+  obj: Record<string, unknown>
+): void {
+  const deletionTime = findMostRecentDeletionTime(storeState, objectState);
+  const props = objectState.entries
+    .filter((entry) => isCollectionOperation(entry) && entry.hlcTime > deletionTime)
+    .map((entry) => JSON.stringify(entry.prop))
+    .filter((prop, index, allProps) => allProps.indexOf(prop) === index);
+
+  for (const prop of props) {
+    const { setEntry, entries } = findCollectionEntries(objectState.entries, deletionTime, JSON.parse(prop));
+    if (entries.length === 0) {
+      continue;
     }
+    const isText = entries.some((entry) => entry.operation === 'insertText' || entry.operation === 'deleteText');
+    const value = isText ? text.materialize(setEntry, entries) : materializeElements(setEntry, entries);
+    setPathValue(obj, toPropPath(JSON.parse(prop)), value);
+  }
+}
+
+/**
+ * Returns the entries that determine the current value of a set or text prop, given ALL of an object's oplog entries
+ * and the time at which it was most recently deleted (or its store was cleared): the winning entry that set the prop
+ * (unless the prop was deleted or replaced afterwards), and the set/text entries made after it.
+ */
+export function findCollectionEntries(
+  objectEntries: OpLogEntry[],
+  deletionTime: string,
+  prop: OpLogEntry['prop']
+): { setEntry?: OpLogEntry; entries: OpLogEntry[] } {
+  const propJson = JSON.stringify(prop);
+  const ancestor = findMostRecentAncestorEntry(objectEntries, toPropPath(prop));
+  const resetTime = ancestor && ancestor.hlcTime > deletionTime ? ancestor.hlcTime : deletionTime;
+  const setEntry = findWinningEntry(
+    objectEntries.filter(
+      (entry) => entry.operation === undefined && JSON.stringify(entry.prop) === propJson && entry.hlcTime > resetTime
+    )
+  );
+  const afterTime = setEntry ? setEntry.hlcTime : resetTime;
+  const entries = objectEntries.filter(
+    (entry) => isCollectionOperation(entry) && JSON.stringify(entry.prop) === propJson && entry.hlcTime > afterTime
+  );
+  return { setEntry, entries };
+}
+
+/**
+ * Use this function to find out if an entry that sets a prop should be ignored because the object was deleted (or its
+ * store was cleared) after the entry's time--this is what prevents a "stale" put from another client from resurrecting
+ * a deleted object--or because one of the prop's "ancestors" (e.g., `theme` or `['theme', 'font']` for `['theme',
+ * 'font', 'size']`) was set more recently, which means the entry's value was replaced.
+ *
+ * @returns a description of why the entry should be ignored, or `null` if it shouldn't be.
+ */
+function getDeletedOrReplacedReason(
+  storeState: StoreState,
+  objectState: ObjectState,
+  candidate: OpLogEntry
+): string | null {
+  const deletionTime = findMostRecentDeletionTime(storeState, objectState);
+  if (candidate.hlcTime < deletionTime) {
+    debug && log.debug(`WON'T apply oplog entry; object was deleted more recently:`, { candidate, deletionTime });
+    return `the object was deleted more recently (${deletionTime})`;
+  }
+
+  const ancestor = findMostRecentAncestorEntry(objectState.entries, toPropPath(candidate.prop));
+  if (ancestor && ancestor.hlcTime > candidate.hlcTime) {
+    debug && log.debug(`WON'T apply oplog entry; parent prop was set more recently:`, { candidate, ancestor });
+    return `a parent prop was set more recently (${ancestor.hlcTime})`;
+  }
+
+  return null;
+}
+
+/**
+ * Returns the most recent entry that set one of a prop's "ancestors" (e.g., `theme` or `['theme', 'font']` for
+ * `['theme', 'font', 'size']`), if there is one.
+ */
+function findMostRecentAncestorEntry(entries: OpLogEntry[], path: string[]): OpLogEntry | undefined {
+  const ancestorProps: string[] = [];
+  for (let depth = 1; depth < path.length; depth++) {
+    ancestorProps.push(JSON.stringify(fromPropPath(path.slice(0, depth))));
+  }
+  return findMostRecent(
+    entries,
+    (entry) => entry.operation === undefined && ancestorProps.includes(JSON.stringify(entry.prop))
+  );
+}
+
+/**
+ * Returns the time of the most recent deletion that affects an object--either a tombstone for the object itself or a
+ * "clear" of the entire store (or '' if neither exists). Note that tombstones always have `prop: ''`; entries for that
+ * prop that aren't tombstones are skipped (e.g., if a non-object value was previously stored with the object's key).
+ */
+function findMostRecentDeletionTime(storeState: StoreState, objectState: ObjectState): string {
+  const tombstone = findMostRecent(objectState.entries, (entry) => entry.operation === 'delete');
+  const clearEntry = findMostRecent(storeState.clearEntries, (entry) => entry.operation === 'clear');
+  const tombstoneTime = tombstone ? tombstone.hlcTime : '';
+  const clearTime = clearEntry ? clearEntry.hlcTime : '';
+  return tombstoneTime > clearTime ? tombstoneTime : clearTime;
+}
+
+/**
+ * Applies an entry that sets a prop (or a non-object value) on an object.
+ */
+function applyPut(storeState: StoreState, objectState: ObjectState, candidate: OpLogEntry): void {
+  objectState.changed = true;
+
+  if (candidate.prop === '') {
+    // If the OpLogEntry doesn't reference an _object property_, then we're not setting a prop on an object; the
+    // candidate value _is_ the new value.
+    objectState.value = candidate.value;
+    return;
+  }
+
+  // "Merge" the existing object with the new prop value. If no existing object exists, then since the oplog entry
+  // specifies an _object property_ (i.e., candidate.prop), we know that the final value needs to be an object.
+  const existingValue = objectState.value;
+  const newValue: Record<string, unknown> =
+    existingValue && typeof existingValue === 'object' ? { ...existingValue } : {};
+  const path = toPropPath(candidate.prop);
+  setPathValue(newValue, path, candidate.value);
+
+  // Setting a prop replaces everything "under" it, including nested props that may have been set more recently via
+  // path-based oplog entries (e.g., if the prop is `theme`, entries for `['theme', 'color']`). Those need to be set
+  // again, in the order they were made, so that they aren't lost. The same goes for increments of the prop that were
+  // made after the entry (i.e., the prop is a counter and the entry arrived late).
+  const laterEntries = objectState.entries.filter(
+    (entry) =>
+      isDescendantProp(path, entry.prop) ||
+      (entry.operation === 'increment' && JSON.stringify(entry.prop) === JSON.stringify(candidate.prop))
+  );
+  replayEntries(newValue, laterEntries, candidate.hlcTime);
+  materializeCollectionProps(storeState, objectState, newValue);
+
+  // Note that this is done even if the object already existed. If the store has a nested keyPath (e.g., `meta.id`) and
+  // the entry sets the top-level prop that contains the key (e.g., `meta`), then the key has to be set again since it
+  // may not be part of the entry's value.
+  setKeyPathProps(storeState.target, candidate.objectKey, newValue);
+  objectState.value = newValue;
+}
 
-    // This logic is redundant since throwIfInvalidOpLogEntry() validates the hlcTime, but necessary to prove to the
-    // Typescript compiler that candidateHLTime is set to a value.
-    if (!candidateHLTime) {
+/**
+ * Applies a tombstone entry. Any props that were set BEFORE the tombstone's time are deleted. If any props were set
+ * AFTER the tombstone's time (e.g., because a client set them without knowing about the deletion), the object is
+ * re-created with only those props.
+ */
+function applyDeletion(storeState: StoreState, objectState: ObjectState, candidate: OpLogEntry): void {
+  objectState.changed = true;
+
+  // A prop only survives if it was set after BOTH the tombstone and the most recent "clear" of the store (i.e., an old
+  // tombstone that arrives late must not re-create props that were wiped by a newer clear).
+  const deletionTime = findMostRecentDeletionTime(storeState, objectState);
+  const survivorThreshold = deletionTime > candidate.hlcTime ? deletionTime : candidate.hlcTime;
+  const survivors = objectState.entries.filter((entry) => entry.prop !== '' && entry.hlcTime > survivorThreshold);
+
+  if (survivors.length === 0) {
+    objectState.value = undefined;
+    return;
+  }
+
+  debug && log.debug(`re-creating deleted object with props that were set after deletion:`, survivors);
+  const newValue: Record<string, unknown> = {};
+  replayEntries(newValue, survivors, '');
+  materializeCollectionProps(storeState, objectState, newValue);
+  // The key props are set last so that they can't be overwritten by a surviving prop (e.g., if the store has a nested
+  // keyPath like `meta.id` and `meta` was set without an `id`).
+  setKeyPathProps(storeState.target, objectState.objectKey, newValue);
+  objectState.value = newValue;
+}
+
+/**
+ * Applies a "clear" entry. Every prop, of every object in the store, that was set BEFORE the entry's time is deleted.
+ * Objects that have props which were set afterwards (e.g., by a client that didn't know about the clear) are kept with
+ * only those props; all other objects are deleted. Note that this also deletes objects that don't have any oplog entries
+ * (e.g., objects that were added before the app started using IDBSideSync); they were, by definition, created before
+ * the store was cleared.
+ */
+function applyClear(storeState: StoreState, candidate: OpLogEntry): void {
+  storeState.objects.forEach((objectState) => {
+    const existingValue = objectState.value;
+    if (existingValue === undefined) {
       return;
-    } else if (candidateHLTime.node() === HLClock.time().node()) {
-      log.warn(`Encountered oplog entry with the same node ID:`, candidateHLTime.node());
-    }
-
-    // Ensure that our HLClock is set to a time that occurs after any other time we encounter (even if we end up not
-    // applying the oplog entry).
-    const currentHLTime = HLClock.time().toString();
-    if (candidateHLTime.toString() > currentHLTime) {
-      debug &&
-        log.debug(`Encountered oplog entry with more recent HLTime; updating time.`, {
-          currentTime: currentHLTime,
-          oplogEntryTime: candidate.hlcTime,
-        });
+    }
 
-      // Note that this will throw if the oplog entry's time is too far in the future...
-      HLClock.tickPast(candidateHLTime);
+    const survivingEntries = objectState.entries.filter(
+      (entry) => (entry.operation === undefined || isMergedOperation(entry)) && entry.hlcTime > candidate.hlcTime
+    );
+    const survivingProps = survivingEntries.map((entry) => entry.prop);
+
+    if (survivingProps.length === 0) {
+      objectState.value = undefined;
+      objectState.changed = true;
+    } else if (!survivingProps.includes('') && existingValue && typeof existingValue === 'object') {
+      // The value of a counter that wasn't set after the clear is just the sum of the increments made afterwards (i.e.,
+      // it can't be copied from the existing value, which includes the increments made before the clear).
+      const isSetProp = (prop: string) =>
+        survivingEntries.some((entry) => entry.operation === undefined && JSON.stringify(entry.prop) === prop);
+      const countersToRecalculate = survivingEntries
+        .filter((entry) => entry.operation === 'increment' && !isSetProp(JSON.stringify(entry.prop)))
+        .map((entry) => JSON.stringify(entry.prop));
+
+      const newValue: Record<string, unknown> = {};
+      for (const prop of survivingProps) {
+        if (countersToRecalculate.includes(JSON.stringify(prop))) {
+          continue;
+        }
+        // If the value is undefined, it means that a more recent entry for one of the prop's "ancestors" replaced it
+        // (e.g., `theme` was set to a string after `['theme', 'color']` was set). The ancestor also survived, so we
+        // don't need to (and shouldn't) copy anything for this prop.
+        const path = toPropPath(prop);
+        const value = getPathValue(existingValue, path);
+        if (value !== undefined) {
+          setPathValue(newValue, path, value);
+        }
+      }
 
-      debug &&
-        log.debug(`Updated local HL time.`, {
-          previousTime: currentHLTime,
-          currentTime: HLClock.time().toString(),
-        });
+      const deletionTime = findMostRecentDeletionTime(storeState, objectState);
+      replayEntries(
+        newValue,
+        survivingEntries.filter((entry) => countersToRecalculate.includes(JSON.stringify(entry.prop))),
+        deletionTime
+      );
+      materializeCollectionProps(storeState, objectState, newValue);
+      setKeyPathProps(storeState.target, objectState.objectKey, newValue);
+      objectState.value = newValue;
+      objectState.changed = true;
+    }
+  });
+}
+
+/**
+ * Puts the final version of an object into the target store (or deletes it if it no longer exists).
+ */
+function saveObject(targetStore: IDBObjectStore, objectState: ObjectState, onError: (error: Error) => void): void {
+  if (objectState.value === undefined) {
+    const deleteReq = targetStore.delete(objectState.objectKey);
+    deleteReq.onerror = (event) => {
+      const error = isEventWithTargetError(event) ? event.target.error : deleteReq.error;
+      onError(new ApplyDeleteError(targetStore.name, error));
+    };
+    return;
+  }
+
+  let putReq: IDBRequest;
+  try {
+    // When calling the target object store's `put()` method it's important to NOT include a `key` param if that store
+    // has a `keyPath`. Doing this causes an error (e.g., "[...] object store uses in-line keys and the key parameter was
+    // provided" in Chrome).
+    putReq = targetStore.keyPath
+      ? targetStore.put(objectState.value)
+      : targetStore.put(objectState.value, objectState.objectKey);
+  } catch (error) {
+    onError(new ApplyPutError(targetStore.name, error));
+    return;
+  }
+
+  putReq.onerror = (event) => {
+    const error = isEventWithTargetError(event) ? event.target.error : putReq.error;
+    onError(new ApplyPutError(targetStore.name, error));
+  };
+
+  if (debug) {
+    putReq.onsuccess = () => {
+      log.debug(`successfully applied oplog entry to ${targetStore.name}.`, objectState.value);
+    };
+  }
+}
+
+/**
+ * Sets the values of some oplog entries on an object, in the order they were made: the winning entry for each prop that
+ * was set (if it was made after `afterTime`), and each of the increments made after `afterTime`. Applying the entries
+ * in order ensures that if both a prop and one of its nested props were set (e.g., `theme` and `['theme', 'color']`),
+ * the most recent one wins, and that a counter is only incremented by the increments made after it was last set.
+ */
+function replayEntries(obj: Record<string, unknown>, entries: OpLogEntry[], afterTime: string): void {
+  const sets = findWinningEntriesByProp(entries.filter((entry) => entry.operation === undefined));
+  const increments = entries.filter((entry) => entry.operation === 'increment');
+  const laterEntries = [...sets, ...increments].filter((entry) => entry.hlcTime > afterTime).sort(compareHlcTimes);
+
+  for (const entry of laterEntries) {
+    const path = toPropPath(entry.prop);
+    if (entry.operation === 'increment') {
+      setPathValue(obj, path, incrementValue(getPathValue(obj, path), entry.value as number));
+    } else {
+      setPathValue(obj, path, entry.value);
+    }
+  }
+}
+
+function findMostRecent(entries: OpLogEntry[], predicate: (entry: OpLogEntry) => boolean): OpLogEntry | undefined {
+  let mostRecent: OpLogEntry | undefined;
+  for (const entry of entries) {
+    if (predicate(entry) && (!mostRecent || entry.hlcTime > mostRecent.hlcTime)) {
+      mostRecent = entry;
+    }
+  }
+  return mostRecent;
+}
+
+/**
+ * Use this function to find out if `prop` is a path-based prop "under" some prop path (e.g., `['theme', 'color']` and
+ * `['theme', 'font', 'size']` are descendants of `['theme']`).
+ */
+function isDescendantProp(path: string[], prop: OpLogEntry['prop']): boolean {
+  return Array.isArray(prop) && prop.length > path.length && path.every((name, i) => prop[i] === name);
+}
+
+/**
+ * Use this function to find out if an entry changes the value of its prop in a way that can be merged with changes
+ * made by other clients (i.e., an increment, or a change to the elements of a set or the characters of a text), as
+ * opposed to replacing the value.
+ */
+function isMergedOperation(entry: OpLogEntry): boolean {
+  return entry.operation === 'increment' || isCollectionOperation(entry);
+}
+
+function isCollectionOperation(entry: OpLogEntry): boolean {
+  return (
+    entry.operation === 'addElement' ||
+    entry.operation === 'removeElement' ||
+    entry.operation === 'insertText' ||
+    entry.operation === 'deleteText'
+  );
+}
+
+function compareHlcTimes(a: OpLogEntry, b: OpLogEntry): number {
+  return a.hlcTime < b.hlcTime ? -1 : 1;
+}
+
+/**
+ * Deletes "superseded" oplog entries: entries for which a more recent entry with the same store + objectKey + prop
+ * exists. Superseded entries no longer affect the state of the object they refer to; an entry for some prop is only
+ * ever compared to the winning entry for that prop, and an entry that is received again (e.g., during a sync) after
+ * being deleted will be ignored since the entry that superseded it still exists.
+ *
+ * The following entries are never deleted:
+ *
+ *  - The most recent entry for each store + objectKey + prop.
+ *  - The winning entry for each store + objectKey + prop, if it isn't the most recent one (i.e., because a conflict
+ *    resolver other than last-writer-wins has been registered; see `registerConflictResolver()`).
+ *  - The most recent "delete" entry for each object, even if it was superseded (e.g., by a newer `put()` of the entire
+ *    object). It's still needed to prevent stale entries that are received later from resurrecting deleted props.
+ *  - Entries whose time is at or after `params.keepAfterTime` (i.e., recent "history").
+ *  - Entries from `params.protectedClientId` whose time is at or after `params.protectedAfterTime`, or ALL of that
+ *    client's entries if `params.protectedAfterTime` is `null`. This is how the caller prevents entries that haven't
+ *    been uploaded yet from being deleted.
+ *
+ * Note that the oplog Merkle tree isn't modified; it continues to summarize the deleted entries. In other words, the
+ * tree represents all of the entries that have been "seen", which prevents compaction from causing the tree to differ
+ * from those of other clients (which might still have the entries).
+ *
+ * @returns the number of entries that were deleted.
+ */
+export function deleteSupersededEntries(params: {
+  keepAfterTime: Date;
+  protectedClientId: string;
+  protectedAfterTime: Date | null;
+}): Promise<number> {
+  const keepAfterTime = params.keepAfterTime.toISOString();
+  const protectedAfterTime = params.protectedAfterTime ? params.protectedAfterTime.toISOString() : null;
+
+  const isRetained = (entry: OpLogEntry) => {
+    if (entry.hlcTime >= keepAfterTime) {
+      return true;
+    }
+    if (HLTime.parse(entry.hlcTime).node() !== params.protectedClientId) {
+      return false;
     }
+    return protectedAfterTime === null || entry.hlcTime >= protectedAfterTime;
+  };
 
-    const txReq = cachedDb.transaction([STORE_NAME.OPLOG, candidate.store], 'readwrite');
-    txReq.oncomplete = () => resolve(txReq);
+  return new Promise((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.OPLOG, STORE_NAME.META], 'readwrite');
     txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
-    txReq.onerror = (event) => reject(isEventWithTargetError(event) ? event.target.error : txReq.error);
+    txReq.onerror = (event) => {
+      const error = isEventWithTargetError(event) ? event.target.error : txReq.error;
+      log.error('Failed to delete superseded oplog entries:', error);
+      reject(new Error(`${libName} Failed to delete superseded oplog entries`));
+    };
+
+    let numDeleted = 0;
+    txReq.oncomplete = () => {
+      debug && log.debug(`Deleted ${numDeleted} superseded oplog entries.`);
+      resolve(numDeleted);
+    };
 
     const oplogStore = txReq.objectStore(STORE_NAME.OPLOG);
-    const targetStore = txReq.objectStore(candidate.store);
-    const oplogIndex = oplogStore.index(OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME);
+    const metaStore = txReq.objectStore(STORE_NAME.META);
 
-    // Each key in the index (an array) must be "greater than or equal to" the "lower bounds" array (which, in effect,
-    // means each element of the key array needs to be >= the corresponding element in the lower bounds array). Given
-    // the following example bounds and keys, BOTH keys are >= the lower bounds:
-    //
-    //  - Lower bounds key: ['todo_items', '123', 'name', '']
-    //
-    //  - Key 1: ['todo_items', '123', 'name', '2021-01-12...'] is included because:
-    //    - 'todo_items' >= 'todo_items' and '123' >= '123' and 'name' >= 'name' and '2021-01-12...' >= ''
-    //
-    //  - Key 2: ['todo_types', '456', 'name', '2021-01-12...'] is included because:
-    //    - 'todo_types' >= 'todo_items' and '456' >= '123' and 'name' >= 'name' and '2021-01-12...' >= ''
-    //
-    // Note that we're using '' for the lower bound of the `hlcTime` key element. This is because we want to include all
-    // possible hlcTime values (i.e., we want all possible hlcTime values to be >= this value), and '' is <= all other
-    // strings.
-    const lowerBound = [candidate.store, candidate.objectKey, candidate.prop, ''];
+    // Deleting the local client's own entries leaves gaps in its hash chain; `verifyOplog()` needs to know where the
+    // chain might have been truncated so that those gaps aren't reported.
+    let truncatedThrough: string | undefined;
+    const truncationReq = metaStore.get(OPLOG_CHAIN_TRUNCATION_OBJ_KEY);
+    truncationReq.onsuccess = () => {
+      truncatedThrough = truncationReq.result;
+    };
 
-    // Each key in the index must be "less than or equal to" the following upper bounds key. We're using '9' for the
-    // upper bound of the `hlcTime` key element because we want to include all possible hlcTime values (i.e., we want
-    // all possible hlcTime values to be LESS THAN OR EQUAL TO this string), and the string '9' should always be >= any
-    // hlcTime value (e.g., '9' >= '2021-01-01...', etc.).
-    const upperBound = [candidate.store, candidate.objectKey, candidate.prop, '9'];
-
-    // Things to keep in mind when grokking how the oplog index, cursor range, and cursor will work here:
-    // 1. The index as a big list, sorted by its `keyPath`, with "smaller" keys at the top.
-    //   - The keys are arrays; IndexedDB compares arrays by comparing corresponding array elements
-    //   - Full sorting algo: https://www.w3.org/TR/IndexedDB/#key-construct. You can test with `indexedDB.cmp(a,b)`
-    // 2. A cursor iterates over some range of that list.
-    // 3. The direction param (prev, next) determines if the cursor starts at the "top" or bottom of the range.
-    //   - 'next' (default) = start at lower bound, 'prev' = start at upper bound and iterate backwards.
-    // 4. IDBKeyRange determines the range of the list over which the cursor will iterate.
-    //   - Lower bound: range begins at first key that is >= x.
-    //   - Upper bound: range ends at first key that is <= y.
-    //   - If no upper bound is specified, cursor can continue to end of index.
-    // 5. It may seem like we don't need to use a lower bound (i.e., "if we're just getting the last item from the list,
-    //    as determined by the upper bound, so why bother with a lower bound?"). It's important to remember, however,
-    //    that the cursor isn't checking for equality--it's only checking for "greater/less than or equal to". So if no
-    //    lower bound is specified, and no existing oplog entry exists for this store/key/prop, the first record the
-    //    cursor encounters could be for for a DIFFERENT store/key/prop! In other words, it's critical that we use a
-    //    lower bound to effectively limit the cursor to entries with matching store/objectKey/prop values. We're
-    //    basically doing something like "where x >= 2 and x <= 2 and y >= 7 and y <= 7" to ensure that the cursor only
-    //    includes objects where x = 2 and y = 7.
-    const idxCursorReq = oplogIndex.openCursor(IDBKeyRange.bound(lowerBound, upperBound), 'prev');
-
-    idxCursorReq.onsuccess = () => {
-      const cursor = idxCursorReq.result;
+    forEachEntryGroup(oplogStore.index(OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME), (groupEntries) => {
+      const unsuperseded = new Set(findUnsupersededEntries(groupEntries));
+      for (const entry of groupEntries) {
+        if (!unsuperseded.has(entry) && !isRetained(entry)) {
+          oplogStore.delete(entry.hlcTime);
+          numDeleted++;
 
-      // The purpose of this block is to see if an existing oplog entry exists that is "newer" than the candidate entry.
-      if (cursor && cursor.value) {
-        try {
-          throwIfInvalidOpLogEntry(cursor.value);
-        } catch (error) {
-          log.warn(
-            `encountered an invalid oplog entry in "${OPLOG_STORE}" store. This might mean that an oplog entry` +
-              `was manually edited or created in an invalid way somewhere. The entry will be ignored.`,
-            JSON.stringify(error.message)
-          );
-          cursor.continue();
-          return;
+          if (entry.clientId === cachedSettings.nodeId && (!truncatedThrough || entry.hlcTime > truncatedThrough)) {
+            truncatedThrough = entry.hlcTime;
+            metaStore.put(truncatedThrough, OPLOG_CHAIN_TRUNCATION_OBJ_KEY);
+          }
         }
+      }
+    });
+  });
+}
+
+/**
+ * Creates a snapshot of the oplog (see `OplogSnapshot`) that can be shared with other clients (e.g., via a sync plugin)
+ * so that new clients don't have to download every historical oplog entry. The snapshot includes the same entries that
+ * `deleteSupersededEntries()` would keep if there were no "history" or protected entries.
+ */
+export function createOplogSnapshot(): Promise<OplogSnapshot> {
+  return new Promise((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.OPLOG], 'readonly');
+    txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
+    txReq.onerror = (event) => reject(isEventWithTargetError(event) ? event.target.error : txReq.error);
+
+    const snapshot: OplogSnapshot = { clientId: cachedSettings.nodeId, entries: [], clientWatermarks: {} };
+    const oplogIndex = txReq.objectStore(STORE_NAME.OPLOG).index(OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME);
+
+    txReq.oncomplete = () => {
+      // Apply the entries in the order they were recorded when the snapshot is used.
+      snapshot.entries.sort(compareHlcTimes);
+      debug && log.debug(`Created oplog snapshot with ${snapshot.entries.length} entries.`);
+      resolve(snapshot);
+    };
 
-        const existing = cursor.value;
-
-        const expectedObjectKey = JSON.stringify(candidate.objectKey);
-        const actualObjectKey = JSON.stringify(existing.objectKey);
-
-        // In theory, the cursor range should prevent us from encountering oplog entries that don't match the candidate
-        // store/objectKey/prop values. That said, doing some extra checks can't hurt--especially while the code hasn't
-        // been thoroughly tested in more than one "production" environment.
-        if (existing.store !== candidate.store) {
-          txReq.abort();
-          // By calling reject() here we are preventing txReq.onabort or txReq.onerror from rejecting; this allows
-          // the calling code to catch our custom error vs. a generic the DOMException from IDB
-          reject(new UnexpectedOpLogEntryError('store', candidate.store, existing.store));
-        } else if (expectedObjectKey !== actualObjectKey) {
-          txReq.abort();
-          reject(new UnexpectedOpLogEntryError('objectKey', expectedObjectKey, actualObjectKey));
-        } else if (existing.prop !== candidate.prop) {
-          txReq.abort();
-          reject(new UnexpectedOpLogEntryError('prop', candidate.prop, cursor.value.prop));
+    forEachEntryGroup(oplogIndex, (groupEntries) => {
+      for (const entry of findUnsupersededEntries(groupEntries)) {
+        const syncedEntry = toSyncedEntry(entry);
+        if (syncedEntry) {
+          snapshot.entries.push(syncedEntry);
         }
+      }
 
-        // If we found an existing entry whose HLC timestamp is more recent than the candidate's, then the candidate
-        // entry is obsolete and we'll ignore it.
-        if (candidate.hlcTime < existing.hlcTime) {
-          debug && log.debug(`WON'T apply oplog entry; found existing that's newer:`, { candidate, existing });
-          return;
+      // Superseded entries aren't included, but they still need to be reflected by the client watermarks.
+      for (const entry of groupEntries) {
+        const watermark = snapshot.clientWatermarks[entry.clientId];
+        if (!watermark || entry.hlcTime > watermark) {
+          snapshot.clientWatermarks[entry.clientId] = entry.hlcTime;
         }
       }
+    });
+  });
+}
 
-      // If the thread of execution makes it this far, it means we didn't find an existing entry with a newer timestamp.
-      log.debug(`applying oplog entry; didn't find a newer one with matching store/key/prop.`);
+/**
+ * Iterates over all of the entries in the oplog, grouped by store + objectKey + prop, and calls `onGroup()` with the
+ * entries of each group (from most to least recent). Note that `onGroup()` is called while the cursor is still open
+ * (i.e., it can make additional requests in the same transaction).
+ */
+function forEachEntryGroup(oplogIndex: IDBIndex, onGroup: (groupEntries: OpLogEntry[]) => void): void {
+  // Iterating backwards means the entries for each store + objectKey + prop are encountered from most to least recent.
+  const cursorReq = oplogIndex.openCursor(null, 'prev');
+  let currentGroup: string | null = null;
+  let groupEntries: OpLogEntry[] = [];
+
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) {
+      if (groupEntries.length > 0) {
+        onGroup(groupEntries);
+      }
+      return;
+    }
 
-      // Add the entry to the oplog store. Note that, in theory, it may already exist there (e.g., it's possible for a
-      // sync to happen in which known oplog entries received again). Instead of attempting to check first, we'll just
-      // use `put()` to "upsert"--less code and avoids an extra IndexedDB operation.
-      const oplogPutReq = oplogStore.put(candidate);
+    const entry: OpLogEntry = cursor.value;
+    const group = JSON.stringify([entry.store, entry.objectKey, entry.prop]);
 
-      if (process.env.NODE_ENV !== 'production') {
-        oplogPutReq.onsuccess = () => {
-          debug && log.debug(`successfully added oplog entry to "${OPLOG_STORE}".`, candidate);
-        };
+    if (group !== currentGroup) {
+      if (groupEntries.length > 0) {
+        onGroup(groupEntries);
       }
+      currentGroup = group;
+      groupEntries = [];
+    }
+    groupEntries.push(entry);
 
-      oplogPutReq.onerror = (event) => {
-        const errMsg = `${libName} encountered an error while attempting to add an object to "${OPLOG_STORE}".`;
-        log.error(errMsg, event);
-        // By calling reject() here we are preventing txReq.onabort or txReq.onerror from rejecting; this allows
-        // the calling code to catch our custom error vs. a generic the DOMException from IDB
-        reject(new Error(errMsg));
-      };
+    cursor.continue();
+  };
+}
+
+/**
+ * Returns the entries for some store + objectKey + prop (sorted from most to least recent) that aren't superseded: the
+ * most recent entry, the winning entry (these are the same unless a conflict resolver other than last-writer-wins has
+ * been registered; see `registerConflictResolver()`), the most recent "delete" entry, and the increments and set/text
+ * changes made after the winning entry (i.e., all of the entries that contribute to the value of a counter, set, or
+ * text).
+ */
+function findUnsupersededEntries(groupEntries: OpLogEntry[]): OpLogEntry[] {
+  const winner = findWinningEntry(groupEntries.filter((entry) => !isMergedOperation(entry)));
+  const deletion = groupEntries.find((entry) => entry.operation === 'delete');
+  return groupEntries.filter(
+    (entry, i) =>
+      i === 0 ||
+      entry === winner ||
+      entry === deletion ||
+      (isMergedOperation(entry) && (!winner || entry.hlcTime > winner.hlcTime))
+  );
+}
 
-      const existingObjReq = targetStore.get(candidate.objectKey);
+/**
+ * Applies the entries of an oplog snapshot (see `createOplogSnapshot()`) in the order they were recorded. Entries are
+ * applied just like any other entries received from another client (i.e., they're only applied if they're newer than
+ * any existing entry for the same prop). If any of the entries is invalid, none of them are applied.
+ */
+export async function applyOplogSnapshot(snapshot: OplogSnapshot): Promise<void> {
+  if (!isValidOplogSnapshot(snapshot)) {
+    throw new InvalidOplogSnapshotError();
+  }
+  for (const entry of snapshot.entries) {
+    try {
+      throwIfInvalidOpLogEntry(entry);
+    } catch (error) {
+      throw new InvalidOpLogEntryError(entry, error.message);
+    }
+  }
+  const entries = [...snapshot.entries].sort((a, b) => (a.hlcTime < b.hlcTime ? -1 : 1));
+  // A snapshot doesn't include superseded entries, so its change sets can be incomplete; they're applied as-is.
+  const migratedEntries = migrateEntries(entries);
+  const newerEntries = await holdBackNewerEntries(migratedEntries);
+  await applyOplogBatches(migratedEntries.filter((entry) => !newerEntries.includes(entry)));
+}
 
-      existingObjReq.onsuccess = () => {
-        const existingValue = existingObjReq.result;
+/**
+ * Use this function to find out if the oplog has any entries that were recorded by clients other than `clientId`.
+ */
+export function hasEntriesFromOtherClients(clientId: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const txReq = cachedDb.transaction([STORE_NAME.OPLOG], 'readonly');
+    txReq.onabort = () => reject(new TransactionAbortedError(txReq.error));
+    txReq.onerror = (event) => reject(isEventWithTargetError(event) ? event.target.error : txReq.error);
 
-        if (existingValue) {
-          debug && log.debug(`retrieved existing object from "${candidate.store}":`, existingValue);
-        } else {
-          debug && log.debug(`no existing object found in "${candidate.store}" with key: ${candidate.objectKey}`);
-        }
+    const oplogIndex = txReq.objectStore(STORE_NAME.OPLOG).index(OPLOG_INDEX_BY_CLIENTID_TIME);
 
-        let newValue: any;
+    // Index keys are `[clientId, hlcTime]`, so the entries from other clients are the ones whose keys are either less
+    // than `[clientId]` or greater than `[clientId, '9']` (see getEntriesByClientPage() for why '9' is used).
+    const beforeReq = oplogIndex.count(IDBKeyRange.upperBound([clientId], true));
+    const afterReq = oplogIndex.count(IDBKeyRange.lowerBound([clientId, '9'], true));
 
-        if (candidate.prop === '') {
-          // If the OpLogEntry doesn't reference an _object property_, then we're not setting a prop on an object; the
-          // candidate value _is_ the new value.
-          newValue = candidate.value;
-        } else if (existingValue && typeof existingValue === 'object') {
-          // "Merge" the existing object with the new object.
-          newValue = { ...existingValue, [candidate.prop]: candidate.value };
-        } else {
-          // No existing value exists. Since the oplog entry specifies an _object property_ (i.e., candidate.prop), we
-          // know that the final value needs to be an object.
-          newValue = { [candidate.prop]: candidate.value };
-
-          // Ensure that the new value object we just created has the required keyPath props if necessary
-          if (targetStore.keyPath) {
-            if (Array.isArray(targetStore.keyPath)) {
-              if (Array.isArray(candidate.objectKey)) {
-                for (let i = 0; i < targetStore.keyPath.length; i++) {
-                  const keyProp = targetStore.keyPath[i];
-                  newValue[keyProp] = candidate.objectKey[i];
-                }
-              } else {
-                const putError = new ApplyPutError(
-                  targetStore.name,
-                  `The oplog entry's ".objectKey" property should be an array but isn't: ` + JSON.stringify(candidate)
-                );
-                log.error(putError);
-                txReq.abort();
-                // By calling reject() here we are preventing txReq.onabort or txReq.onerror from rejecting; this allows
-                // the calling code to catch our custom error vs. a generic the DOMException from IDB
-                reject(putError);
-                return;
-              }
-            } else {
-              newValue[targetStore.keyPath] = candidate.objectKey;
-            }
-          }
-        }
+    txReq.oncomplete = () => {
+      resolve(beforeReq.result + afterReq.result > 0);
+    };
+  });
+}
 
-        let mergedPutReq: IDBRequest;
+/**
+ * Returns a key range for the `OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME` index that includes ALL of the oplog entries for
+ * a specific store + objectKey (i.e., for every prop). The lower bound works because an array is "less than" a longer
+ * array that starts with the same elements, and the upper bound works because the IndexedDB key comparison algorithm
+ * considers any array to be "greater than" any string. Since path-based props are arrays of strings, `[[]]` is greater
+ * than every possible `prop` value (i.e., strings AND arrays of strings).
+ */
+export function objectEntriesRange(store: string, objectKey: OpLogEntry['objectKey']): IDBKeyRange {
+  return IDBKeyRange.bound([store, objectKey], [store, objectKey, [[]]]);
+}
 
-        try {
-          // When calling the target object store's `put()` method it's important to NOT include a `key` param if that
-          // store has a `keyPath`. Doing this causes an error (e.g., "[...] object store uses in-line keys and the key
-          // parameter was provided" in Chrome).
-          mergedPutReq = targetStore.keyPath
-            ? targetStore.put(newValue)
-            : targetStore.put(newValue, candidate.objectKey);
-        } catch (error) {
-          const putError = new ApplyPutError(targetStore.name, error);
-          log.error(putError, error);
-          txReq.abort();
-          // By calling reject() here we are preventing txReq.onabort or txReq.onerror from rejecting; this allows
-          // the calling code to catch our custom error vs. a generic the DOMException from IDB
-          reject(putError);
-          return;
-        }
+/**
+ * Returns a key range for the `OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME` index that includes the oplog entries for a
+ * specific store + objectKey + prop, sorted by hlcTime.
+ */
+export function propEntriesRange(
+  store: string,
+  objectKey: OpLogEntry['objectKey'],
+  prop: OpLogEntry['prop']
+): IDBKeyRange {
+  return IDBKeyRange.bound([store, objectKey, prop, ''], [store, objectKey, prop, '9']);
+}
 
-        mergedPutReq.onerror = (event) => {
-          const error = isEventWithTargetError(event) ? event.target.error : mergedPutReq.error;
-          const putError = new ApplyPutError(targetStore.name, error);
-          log.error(putError);
-          // By calling reject() here we are preventing txReq.onabort or txReq.onerror from rejecting; this allows
-          // the calling code to catch our custom error vs. a generic the DOMException from IDB
-          reject(putError);
-        };
+/**
+ * Returns a key range for the `OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME` index that includes the oplog entries for all of
+ * the path-based props "under" some prop path (e.g., for `['theme']`: `['theme', 'color']`, `['theme', 'font', 'size']`,
+ * etc.), but not the entries for the prop itself. This works because `['theme']` is "less than" any longer array that
+ * starts with 'theme', and `['theme', []]` is "greater than" all of them (since arrays are greater than strings).
+ */
+export function descendantEntriesRange(store: string, objectKey: OpLogEntry['objectKey'], path: string[]): IDBKeyRange {
+  return IDBKeyRange.bound([store, objectKey, path], [store, objectKey, [...path, []]]);
+}
 
-        if (debug) {
-          mergedPutReq.onsuccess = () => {
-            log.debug(`successfully applied oplog entry to ${targetStore.name}.`, {
-              existingValue,
-              newValue,
-            });
-          };
-        }
-      };
+/**
+ * Returns a key range for the `OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME` index that includes ALL of the oplog entries for
+ * a specific store. The upper bound works for the same reason as in `objectEntriesRange()`: the only arrays that can be
+ * used as object keys consist of strings and numbers, and `[[]]` is "greater than" all of them.
+ */
+export function storeEntriesRange(store: string): IDBKeyRange {
+  return IDBKeyRange.bound([store], [store, [[]]]);
+}
 
-      existingObjReq.onerror = (event) => {
-        const errMsg =
-          `${libName} encountered an error while trying to retrieve an object from "${targetStore.name}"  as part ` +
-          `of applying an oplog entry change to that object.`;
-        log.error(errMsg, event);
-        reject(new Error(errMsg));
-      };
-    };
+/**
+ * Ensures that an object (re-)created from an oplog entry has the props required by the target store's `keyPath` (if it
+ * has one), using the values from the entry's `objectKey`. Nested (i.e., dot-notation) key paths are supported.
+ */
+export function setKeyPathProps(
+  targetStore: IDBObjectStore,
+  objectKey: OpLogEntry['objectKey'],
+  obj: Record<string, unknown>
+): void {
+  if (!targetStore.keyPath) {
+    return;
+  }
 
-    idxCursorReq.onerror = (event) => {
-      const errMsg = `${libName} encountered an error while trying to open a cursor on the "${OPLOG_INDEX_BY_STORE_OBJKEY_PROP_TIME}" index.`;
-      log.error(errMsg, event);
-      reject(new Error(errMsg));
-    };
-  });
+  if (Array.isArray(targetStore.keyPath)) {
+    if (!Array.isArray(objectKey)) {
+      throw new ApplyPutError(
+        targetStore.name,
+        `The oplog entry's ".objectKey" property should be an array but isn't: ` + JSON.stringify(objectKey)
+      );
+    }
+    for (let i = 0; i < targetStore.keyPath.length; i++) {
+      setKeyPathValue(obj, targetStore.keyPath[i], objectKey[i]);
+    }
+  } else {
+    setKeyPathValue(obj, targetStore.keyPath, objectKey);
+  }
 }
 
 class UnexpectedOpLogEntryError extends Error {
@@ -643,6 +2890,13 @@ export class ApplyPutError extends Error {
   }
 }
 
+export class ApplyDeleteError extends Error {
+  constructor(storeName: string, error: unknown) {
+    super(`${libName}: error on attempt to apply oplog entry that deletes object in "${storeName}": ` + error);
+    Object.setPrototypeOf(this, ApplyDeleteError.prototype); // https://git.io/vHLlu
+  }
+}
+
 export class TransactionAbortedError extends Error {
   constructor(error: unknown) {
     super(`${libName}: transaction aborted with error: ` + error);
@@ -650,6 +2904,13 @@ export class TransactionAbortedError extends Error {
   }
 }
 
+export class InvalidOplogSnapshotError extends Error {
+  constructor() {
+    super(`${libName}: Object is not a valid OplogSnapshot.`);
+    Object.setPrototypeOf(this, InvalidOplogSnapshotError.prototype); // https://git.io/vHLlu
+  }
+}
+
 export class InvalidOpLogEntryError extends Error {
   constructor(object: unknown, message = '') {
     super(`Object is not a valid OpLogEntry; ${message}: ` + JSON.stringify(object));
@@ -1,7 +1,15 @@
+import * as merkle from './merkle';
+import * as text from './text';
 import * as utils from './utils';
 
 export * from './db';
 export * from './sync';
+export * from './resolvers';
+export * from './validators';
+export * from './migrations';
+export * from './integrity';
+export * from './undo';
 export * from './IDBObjectStoreProxy';
-export { utils };
+export * from './IDBCursorProxy';
+export { merkle, text, utils };
 export * from './HLClock';
@@ -0,0 +1,65 @@
+import * as murmurhash from 'murmurhash';
+import { toCanonicalJson } from './utils';
+
+// Two differently-seeded 32-bit hashes are combined so that accidental collisions are unlikely.
+const HASH_SEEDS = [0, 0x5bd1e995];
+
+/**
+ * Computes the `hash` of an oplog entry (see the note on the `hash` and `prevHash` properties of OpLogEntry). The hash
+ * covers everything about the entry, including its `prevHash`, except for the `hash` itself and the properties that
+ * are changed when the entry is translated by a schema migration (the entry's original `store` and `prop` are hashed
+ * instead; see `migrateEntry()`).
+ */
+export function hashOplogEntry(entry: OpLogEntry): string {
+  const contents: Record<string, unknown> = { ...entry, ...entry.migratedFrom };
+  delete contents.hash;
+  delete contents.schemaVersion;
+  delete contents.migratedFrom;
+
+  const json = toCanonicalJson(contents);
+  return HASH_SEEDS.map((seed) => ('0000000' + murmurhash.default.v3(json, seed).toString(16)).slice(-8)).join('');
+}
+
+/**
+ * Checks the hash chain of some of a client's oplog entries, which need to be sorted by `hlcTime`. If `previous` is
+ * an entry (i.e., the client's entry that precedes `entries`), the first entry has to be linked to it; if it's `null`,
+ * the first entry has to be the start of the client's chain; otherwise the first entry's `prevHash` isn't checked.
+ * Entries without a `hash` (e.g., recorded by an older version of IDBSideSync) are skipped.
+ *
+ * Entries can be missing for legitimate reasons (e.g., `deleteSupersededEntries()` deleted them); to avoid reporting
+ * those as gaps, pass the time of the most recent entry that might be missing as `options.truncatedThrough`.
+ */
+export function verifyEntryChain(
+  entries: OpLogEntry[],
+  previous?: OpLogEntry | null,
+  options: { truncatedThrough?: string | null } = {}
+): OplogIntegrityIssue[] {
+  const issues: OplogIntegrityIssue[] = [];
+  const chained = entries.filter((entry) => typeof entry.hash === 'string');
+  const hashes = new Set(chained.map((entry) => entry.hash));
+  let preceding = previous && typeof previous.hash === 'string' ? previous : null;
+
+  for (const entry of chained) {
+    if (hashOplogEntry(entry) !== entry.hash) {
+      issues.push({ type: 'modified', entry });
+    }
+
+    // Without a preceding entry, the first entry only has to be the start of the chain if `previous` is `null`.
+    const isLinked = preceding ? entry.prevHash === preceding.hash : previous !== null || !entry.prevHash;
+    if (!isLinked) {
+      if (entry.prevHash && hashes.has(entry.prevHash)) {
+        issues.push({ type: 'reordered', entry });
+      } else {
+        const mightBeTruncated =
+          !!options.truncatedThrough && (!preceding || preceding.hlcTime < options.truncatedThrough);
+        if (!mightBeTruncated) {
+          issues.push({ type: 'gap', entry });
+        }
+      }
+    }
+
+    preceding = entry;
+  }
+
+  return issues;
+}
@@ -0,0 +1,105 @@
+import { HLTime } from './HLTime';
+
+/**
+ * The number of digits in the base-3 representation of "minutes since 1970" for any time between ~1997 and ~2051. Keys
+ * are expected to have this length so that they can be converted back to a time (and so that they sort chronologically).
+ */
+const KEY_LENGTH = 16;
+
+type MerkleTreeKey = '0' | '1' | '2';
+const MERKLE_TREE_KEYS: MerkleTreeKey[] = ['0', '1', '2'];
+
+export function emptyTree(): MerkleTree {
+  return { hash: 0 };
+}
+
+/**
+ * Converts a time to the "path" that would be used to insert it into a Merkle tree: the number of minutes since 1970,
+ * base-3 encoded (e.g., `2021-01-24T13:23:14.203Z` => `'1100010222210101'`).
+ */
+export function timeToKey(time: HLTime): string {
+  return Math.floor(time.millis() / 1000 / 60).toString(3);
+}
+
+/**
+ * The opposite of `timeToKey()`. If the key is "partial" (i.e., a path to some node that isn't a leaf), it's padded with
+ * zeros, which results in the earliest time for that node.
+ *
+ * @returns the time (msec since 1970) represented by the key.
+ */
+export function keyToTime(key: string): number {
+  const fullKey = key + '0'.repeat(Math.max(KEY_LENGTH - key.length, 0));
+  return parseInt(fullKey, 3) * 1000 * 60;
+}
+
+/**
+ * Inserts a time into a tree, updating the hash of every node on the path to the time's leaf node. Since the hashes are
+ * XOR'ed together, the order in which times are inserted doesn't matter. Note, however, that this also means inserting
+ * the same time twice will "cancel out" the first insert--callers need to ensure that each time is only inserted once.
+ *
+ * @returns a new tree (i.e., the tree that is passed in isn't modified).
+ */
+export function insert(tree: MerkleTree, time: HLTime): MerkleTree {
+  const hash = time.hash();
+  return insertKey({ ...tree, hash: tree.hash ^ hash }, timeToKey(time), hash);
+}
+
+function insertKey(node: MerkleTree, key: string, hash: number): MerkleTree {
+  if (key.length === 0) {
+    return node;
+  }
+  const childKey = key[0] as MerkleTreeKey;
+  const child = node[childKey] || emptyTree();
+  return {
+    ...node,
+    [childKey]: insertKey({ ...child, hash: child.hash ^ hash }, key.slice(1), hash),
+  };
+}
+
+/**
+ * Convenience function for creating a tree from a bunch of times.
+ */
+export function build(times: HLTime[]): MerkleTree {
+  let tree = emptyTree();
+  for (const time of times) {
+    tree = insert(tree, time);
+  }
+  return tree;
+}
+
+/**
+ * Compares two trees and finds the (approximate) time at which they started to differ. Starting at the root node, the
+ * children of both trees are compared in chronological order until a pair of nodes with different hashes is found;
+ * the process is then repeated with those nodes' children until there aren't any more differences.
+ *
+ * @returns the time (msec since 1970) of the earliest minute whose entries differ, or `null` if the trees are the same.
+ */
+export function diff(tree1: MerkleTree, tree2: MerkleTree): number | null {
+  if (tree1.hash === tree2.hash) {
+    return null;
+  }
+
+  let node1 = tree1;
+  let node2 = tree2;
+  let key = '';
+
+  for (;;) {
+    const diffKey = findDiffKey(node1, node2);
+
+    if (!diffKey) {
+      return keyToTime(key);
+    }
+
+    key += diffKey;
+    node1 = node1[diffKey] || emptyTree();
+    node2 = node2[diffKey] || emptyTree();
+  }
+}
+
+function findDiffKey(node1: MerkleTree, node2: MerkleTree): MerkleTreeKey | undefined {
+  return MERKLE_TREE_KEYS.find((childKey) => getHash(node1[childKey]) !== getHash(node2[childKey]));
+}
+
+function getHash(node?: MerkleTree): number {
+  return node ? node.hash : 0;
+}
@@ -0,0 +1,116 @@
+import { fromPropPath, libName, toPropPath } from './utils';
+
+/**
+ * A change to an app's schema that affects how its oplog entries refer to things:
+ *
+ *   - `renameStore`: the object store named `from` was renamed to `to`.
+ *   - `renameProp`: the prop `from` of the objects in `store` (the store's name as of the migration's version) was
+ *     renamed to `to`. Either can be a path (e.g., `['theme', 'color']`); entries for props "under" the renamed prop
+ *     (e.g., `['theme', 'color']` if `theme` was renamed to `style`) are renamed too.
+ */
+export type SchemaMigration =
+  | { type: 'renameStore'; from: string; to: string }
+  | { type: 'renameProp'; store: string; from: OpLogEntry['prop']; to: OpLogEntry['prop'] };
+
+const migrations: { version: number; migration: SchemaMigration }[] = [];
+
+/**
+ * Use this function to tell IDBSideSync about a change to your app's schema that was made in some version of your
+ * IndexedDB database (i.e., the `version` passed to `indexedDB.open()`), so that oplog entries recorded by an older
+ * version of the app keep working:
+ *
+ *  - When the database is upgraded (see `onupgradeneeded()`), the existing oplog entries are rewritten.
+ *  - Entries received from clients running an older version of the app are translated before they're applied (see
+ *    `applyOplogEntries()`).
+ *
+ * Migrations need to be registered BEFORE the database is opened. Note that IDBSideSync only changes oplog entries;
+ * your app is still responsible for migrating its own object stores (e.g., renaming the store and the props of its
+ * objects in its `onupgradeneeded` handler). Also, entries recorded by a NEWER version of the app can't be translated;
+ * they're kept (as `'pending'`) and only applied once this client has been upgraded too (i.e., by `init()`).
+ *
+ * @example
+ * ```
+ * IDBSideSync.registerMigration(2, { type: 'renameStore', from: 'todos', to: 'tasks' });
+ * IDBSideSync.registerMigration(3, { type: 'renameProp', store: 'tasks', from: 'name', to: 'title' });
+ * ```
+ */
+export function registerMigration(version: number, migration: SchemaMigration): void {
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`${libName}: invalid schema version for migration: ${version}`);
+  }
+  if (!isSchemaMigration(migration)) {
+    throw new Error(`${libName}: invalid schema migration: ${JSON.stringify(migration)}`);
+  }
+  migrations.push({ version, migration });
+  migrations.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Removes all of the migrations that were registered with `registerMigration()`.
+ */
+export function clearMigrations(): void {
+  migrations.length = 0;
+}
+
+/**
+ * Use this function to find out if any migrations were registered for versions after `fromVersion`, up to and including
+ * `toVersion`.
+ */
+export function hasMigrations(fromVersion: number, toVersion: number): boolean {
+  return migrations.some(({ version }) => version > fromVersion && version <= toVersion);
+}
+
+/**
+ * Translates an oplog entry that was recorded with an older schema (see the entry's `schemaVersion`; entries without one
+ * are assumed to predate every migration) by applying all of the migrations registered for later versions, up to and
+ * including `toVersion`. If any migrations apply, a copy of the entry is returned with its `schemaVersion` set to
+ * `toVersion` (and its original `store` and `prop` in `migratedFrom`); otherwise the entry itself is returned.
+ */
+export function migrateEntry(entry: OpLogEntry, toVersion: number): OpLogEntry {
+  const fromVersion = entry.schemaVersion || 0;
+  if (!hasMigrations(fromVersion, toVersion)) {
+    return entry;
+  }
+
+  let { store, prop } = entry;
+  for (const { version, migration } of migrations) {
+    if (version <= fromVersion || version > toVersion) {
+      continue;
+    }
+    if (migration.type === 'renameStore') {
+      store = store === migration.from ? migration.to : store;
+    } else if (store === migration.store) {
+      const path = toPropPath(prop);
+      const fromPath = toPropPath(migration.from);
+      if (fromPath.every((name, i) => path[i] === name)) {
+        prop = fromPropPath([...toPropPath(migration.to), ...path.slice(fromPath.length)]);
+      }
+    }
+  }
+  // The entry's original store and prop are kept so that its hash can still be verified (see `hashOplogEntry()`).
+  const migratedFrom = entry.migratedFrom || { store: entry.store, prop: entry.prop };
+  return { ...entry, store, prop, schemaVersion: toVersion, migratedFrom };
+}
+
+function isSchemaMigration(thing: unknown): thing is SchemaMigration {
+  const candidate = thing as SchemaMigration;
+  if (!candidate || typeof candidate !== 'object') {
+    return false;
+  } else if (candidate.type === 'renameStore') {
+    return isNonEmptyString(candidate.from) && isNonEmptyString(candidate.to);
+  } else if (candidate.type === 'renameProp') {
+    return isNonEmptyString(candidate.store) && isPropName(candidate.from) && isPropName(candidate.to);
+  }
+  return false;
+}
+
+function isNonEmptyString(thing: unknown): thing is string {
+  return typeof thing === 'string' && thing !== '';
+}
+
+function isPropName(thing: unknown): boolean {
+  return (
+    isNonEmptyString(thing) ||
+    (Array.isArray(thing) && thing.length > 0 && thing.every((name) => isNonEmptyString(name)))
+  );
+}
@@ -0,0 +1,162 @@
+import { libName } from './utils';
+
+/**
+ * A function that decides which of two conflicting oplog entries (i.e., entries for the same store + objectKey + prop)
+ * "wins". It receives the entries in the order they were made (i.e., `older` first) and must return one of them. Since
+ * every client has to end up with the same winner, regardless of the order in which it receives the entries, the
+ * function must be deterministic and only depend on the entries.
+ */
+export type ConflictResolverFunction = (older: OpLogEntry, newer: OpLogEntry) => OpLogEntry;
+
+/**
+ * The strategies that can be used to resolve conflicts between oplog entries:
+ *
+ *   - `lww`: last-writer-wins (the default); the entry with the most recent `hlcTime` wins.
+ *   - `fww`: first-writer-wins; the entry with the earliest `hlcTime` wins.
+ *   - `max`: the entry with the greater `value` wins.
+ *   - `min`: the entry with the smaller `value` wins.
+ *   - a custom `ConflictResolverFunction`.
+ *
+ * Note that `max` and `min` only compare numbers with numbers and strings with strings. If the values can't be compared
+ * (or they're equal), the most recent entry wins.
+ */
+export type ConflictResolver = 'lww' | 'fww' | 'max' | 'min' | ConflictResolverFunction;
+
+const resolvers = new Map<string, ConflictResolver>();
+
+/**
+ * Use this function to change how conflicts between oplog entries for a store are resolved (see `ConflictResolver`),
+ * both when entries are received from other clients and when objects are updated by calling `put()` on a proxied
+ * store. Pass `options.prop` to only change it for a specific prop of the store's objects (e.g., `'score'` or `['stats',
+ * 'score']`). A resolver registered for a prop takes precedence over one registered for its store.
+ *
+ * Note that resolvers are only consulted for entries that set the same prop; "delete" and "clear" entries, and whether
+ * or not a prop was replaced by a more recent change to one of its "ancestors", are always resolved by time. Also, each
+ * client needs to register the same resolvers (before syncing) in order for their data to converge.
+ *
+ * @example
+ * ```
+ * // "Highest score wins"
+ * IDBSideSync.registerConflictResolver('players', 'max', { prop: 'highScore' });
+ * ```
+ */
+export function registerConflictResolver(
+  store: string,
+  resolver: ConflictResolver,
+  options: { prop?: OpLogEntry['prop'] } = {}
+): void {
+  if (!isConflictResolver(resolver)) {
+    throw new Error(`${libName}: invalid conflict resolver for "${store}": ${resolver}`);
+  }
+  resolvers.set(toResolverKey(store, options.prop), resolver);
+}
+
+/**
+ * Removes a resolver that was registered with `registerConflictResolver()` (i.e., conflicts will be resolved using
+ * the store's resolver, if the resolver was registered for a prop, or last-writer-wins).
+ */
+export function unregisterConflictResolver(store: string, options: { prop?: OpLogEntry['prop'] } = {}): void {
+  resolvers.delete(toResolverKey(store, options.prop));
+}
+
+/**
+ * Returns the resolver that should be used for conflicting entries for some store + prop.
+ */
+export function getConflictResolver(store: string, prop: OpLogEntry['prop']): ConflictResolver {
+  return resolvers.get(toResolverKey(store, prop)) || resolvers.get(toResolverKey(store)) || 'lww';
+}
+
+/**
+ * Use this function to find out if any resolvers (other than the default last-writer-wins) apply to a store.
+ */
+export function hasConflictResolvers(store: string): boolean {
+  let found = false;
+  resolvers.forEach((resolver, key) => {
+    found = found || (JSON.parse(key)[0] === store && resolver !== 'lww');
+  });
+  return found;
+}
+
+/**
+ * Decides which of two oplog entries wins, using the resolver registered for their store + prop. If the entries don't
+ * refer to the same prop, or either of them is a "delete" or "clear" entry, the most recent one wins.
+ */
+export function resolveConflict(a: OpLogEntry, b: OpLogEntry): OpLogEntry {
+  const [older, newer] = a.hlcTime < b.hlcTime ? [a, b] : [b, a];
+
+  if (
+    a.hlcTime === b.hlcTime ||
+    a.operation !== undefined ||
+    b.operation !== undefined ||
+    a.store !== b.store ||
+    JSON.stringify(a.prop) !== JSON.stringify(b.prop)
+  ) {
+    return newer;
+  }
+
+  const resolver = getConflictResolver(newer.store, newer.prop);
+
+  if (resolver === 'lww') {
+    return newer;
+  } else if (resolver === 'fww') {
+    return older;
+  } else if (resolver === 'max' || resolver === 'min') {
+    const olderValue = older.value;
+    const newerValue = newer.value;
+    const comparable =
+      (typeof olderValue === 'number' && typeof newerValue === 'number') ||
+      (typeof olderValue === 'string' && typeof newerValue === 'string');
+    if (!comparable || olderValue === newerValue) {
+      return newer;
+    }
+    const olderIsGreater = (olderValue as number | string) > (newerValue as number | string);
+    return olderIsGreater === (resolver === 'max') ? older : newer;
+  }
+
+  const winner = resolver(older, newer);
+  if (winner === older || winner === newer) {
+    return winner;
+  } else if (winner && winner.hlcTime === older.hlcTime) {
+    return older;
+  } else if (winner && winner.hlcTime === newer.hlcTime) {
+    return newer;
+  }
+  throw new Error(`${libName}: conflict resolver for "${newer.store}" must return one of the entries passed to it.`);
+}
+
+/**
+ * Returns the winning entry from a list of (conflicting) entries for the same store + objectKey + prop.
+ */
+export function findWinningEntry(entries: OpLogEntry[]): OpLogEntry | undefined {
+  let winner: OpLogEntry | undefined;
+  for (const entry of entries) {
+    winner = winner ? resolveConflict(winner, entry) : entry;
+  }
+  return winner;
+}
+
+/**
+ * Returns the winning entry for each of the (distinct) props in a list of entries.
+ */
+export function findWinningEntriesByProp(entries: OpLogEntry[]): OpLogEntry[] {
+  const entriesByProp: Record<string, OpLogEntry[]> = {};
+  for (const entry of entries) {
+    const prop = JSON.stringify(entry.prop);
+    entriesByProp[prop] = entriesByProp[prop] || [];
+    entriesByProp[prop].push(entry);
+  }
+  return Object.values(entriesByProp).map((propEntries) => findWinningEntry(propEntries) as OpLogEntry);
+}
+
+/**
+ * Type guard for checking if something can be used as a `ConflictResolver`.
+ */
+export function isConflictResolver(thing: unknown): thing is ConflictResolver {
+  return thing === 'lww' || thing === 'fww' || thing === 'max' || thing === 'min' || thing instanceof Function;
+}
+
+function toResolverKey(store: string, prop?: OpLogEntry['prop']): string {
+  // Single-element paths are normalized so that `['score']` and `'score'` refer to the same prop (see `fromPropPath()`).
+  const normalizedProp = Array.isArray(prop) && prop.length === 1 ? prop[0] : prop;
+  return JSON.stringify(normalizedProp === undefined ? [store] : [store, normalizedProp]);
+}
@@ -1,16 +1,51 @@
 import * as db from './db';
 import { HLTime } from './HLTime';
+import { verifyEntryChain } from './integrity';
 import { debug, libName, log } from './utils';
 
 const plugins: SyncPlugin[] = [];
 
-export async function sync(options: { forceFullSync?: boolean } = {}) {
+/**
+ * Uploads/downloads oplog entries using each registered plugin. If the plugin supports snapshots (see `OplogSnapshot`)
+ * and this client hasn't received any entries from other clients yet (e.g., it's a new client joining an existing
+ * sync folder), the most recent snapshot is applied first so that only the entries recorded after it need to be
+ * downloaded. Set `options.uploadSnapshot` to upload a new snapshot once the entries have been exchanged.
+ *
+ * Errors are not thrown; if syncing with a plugin fails, the error is included in that plugin's result and the next
+ * plugin is attempted.
+ *
+ * @returns the result of syncing with each plugin, including whether each downloaded entry was applied, ignored (i.e.,
+ * it was stale), rejected, or is pending (i.e., the rest of its change set hasn't been downloaded yet; see
+ * `applyOplogEntries()`), and the problems found in the hash chains of the downloaded entries (see
+ * `OplogIntegrityIssue`). Entries with broken hash chains are still applied.
+ */
+export async function sync(options: { forceFullSync?: boolean; uploadSnapshot?: boolean } = {}): Promise<SyncResult> {
   const { nodeId: localClientId } = db.getSettings();
+  const syncResult: SyncResult = { plugins: [] };
+
+  // The own entries that no plugin has uploaded yet are brought in line with the current sync options first (see
+  // `applySyncScope()`); entries that were already uploaded are left as they are since other clients might have them.
+  let syncScopeError: Error | undefined;
+  try {
+    const uploadedTimes = await Promise.all(plugins.map((plugin) => plugin.getMostRecentUploadedEntryTime()));
+    const latestUploadedTime = uploadedTimes.reduce<Date | null>(
+      (latest, time) => (time instanceof Date && !isNaN(time.getTime()) && (!latest || time > latest) ? time : latest),
+      null
+    );
+    await db.applySyncScope(latestUploadedTime);
+  } catch (error) {
+    syncScopeError = error;
+  }
 
   // Attempt to do a sync using each registered plugin
   for (const plugin of plugins) {
     const pluginId = plugin.getPluginId();
+    const pluginResult: PluginSyncResult = { pluginId, numUploaded: 0, downloaded: [], integrityIssues: [] };
+    syncResult.plugins.push(pluginResult);
     try {
+      if (syncScopeError) {
+        throw syncScopeError;
+      }
       debug && log.debug(`Attempting to sync with remote storage using '${pluginId}' plugin.`);
 
       await plugin.saveRemoteClientRecord(localClientId);
@@ -24,8 +59,9 @@ export async function sync(options: { forceFullSync?: boolean } = {}) {
         log.debug(`Uploading ALL local entries.`);
       }
 
-      // Upload own oplog entries that are missing from the server.
-      let ownEntryUploadCounter = 0;
+      // Upload own oplog entries that are missing from the server. They're uploaded as they are (i.e., with the hashes
+      // that other clients verify): those that no plugin had uploaded were already brought in line with the current
+      // sync options above, and those that another plugin already uploaded are shared in the same form.
       for await (const localEntry of db.getEntriesByClient(localClientId, { afterTime: mostRecentUploadedEntryTime })) {
         //TODO: Add support for uploading more than one entry at a time (batching)
         let hlTime = HLTime.parse(localEntry.hlcTime);
@@ -35,9 +71,20 @@ export async function sync(options: { forceFullSync?: boolean } = {}) {
           clientId: hlTime.node(),
           entry: localEntry,
         });
-        ownEntryUploadCounter += result.numUploaded;
+        pluginResult.numUploaded += result.numUploaded;
+      }
+      debug && log.debug(`Uploaded ${pluginResult.numUploaded} local oplog entries.`);
+
+      // Bootstrap from a snapshot if this client doesn't have any entries from other clients yet.
+      let snapshotWatermarks: OplogSnapshot['clientWatermarks'] = {};
+      if (plugin.getRemoteSnapshot && !(await db.hasEntriesFromOtherClients(localClientId))) {
+        const snapshot = await plugin.getRemoteSnapshot();
+        if (snapshot) {
+          debug && log.debug(`Applying snapshot with ${snapshot.entries.length} entries from ${snapshot.clientId}.`);
+          await db.applyOplogSnapshot(snapshot);
+          snapshotWatermarks = snapshot.clientWatermarks;
+        }
       }
-      debug && log.debug(`Uploaded ${ownEntryUploadCounter} local oplog entries.`);
 
       debug && log.debug(`Attempting to discover remote clients on server and download their oplog entries...`);
       for await (const clientRecord of plugin.getRemoteClientRecords({ excludeClientIds: [localClientId] })) {
@@ -45,8 +92,9 @@ export async function sync(options: { forceFullSync?: boolean } = {}) {
 
         // What is the most recent oplog entry time we know of for the current remote client?
         let mostRecentKnownOplogTimeForRemoteClient = null;
+        let mostRecentEntry: OpLogEntry | null | undefined;
         try {
-          let mostRecentEntry = await db.getMostRecentEntryForClient(remoteClientId);
+          mostRecentEntry = await db.getMostRecentEntryForClient(remoteClientId);
           if (mostRecentEntry) {
             mostRecentKnownOplogTimeForRemoteClient = new Date(HLTime.parse(mostRecentEntry.hlcTime).millis());
           }
@@ -54,15 +102,54 @@ export async function sync(options: { forceFullSync?: boolean } = {}) {
           log.error(`Error on attempt to determine most recent oplog entry time for client ${remoteClientId}`, error);
         }
 
-        let remoteEntryDownloadCounter = 0;
+        // The snapshot reflects ALL of the client's entries up to its watermark, including superseded entries that
+        // weren't included in the snapshot (i.e., the client's most recent entry in our oplog might be older).
+        if (snapshotWatermarks[remoteClientId]) {
+          const watermarkTime = new Date(HLTime.parse(snapshotWatermarks[remoteClientId]).millis());
+          if (!mostRecentKnownOplogTimeForRemoteClient || watermarkTime > mostRecentKnownOplogTimeForRemoteClient) {
+            mostRecentKnownOplogTimeForRemoteClient = watermarkTime;
+            mostRecentEntry = undefined;
+          }
+        }
+
+        // Downloaded entries are applied in batches (each in a single transaction) instead of one at a time. Note that
+        // applying them will increment the local HLC time.
+        const remoteClientResults: ApplyOplogEntryResult[] = [];
+        let remoteEntries: OpLogEntry[] = [];
         for await (const remoteEntry of plugin.getRemoteEntries({
           clientId: remoteClientId,
           afterTime: mostRecentKnownOplogTimeForRemoteClient,
         })) {
-          db.applyOplogEntry(remoteEntry); // Note that this will increment the local HLC time.
-          remoteEntryDownloadCounter++;
+          remoteEntries.push(remoteEntry);
+          if (remoteEntries.length >= db.DEFAULT_APPLY_BATCH_SIZE) {
+            remoteClientResults.push(...(await applyRemoteEntries(remoteEntries)));
+            remoteEntries = [];
+          }
         }
-        log.debug(`Downloaded ${remoteEntryDownloadCounter} oplog entries for remote client '${remoteClientId}'.`);
+        remoteClientResults.push(...(await applyRemoteEntries(remoteEntries)));
+        pluginResult.downloaded.push(...remoteClientResults);
+
+        // Check that the downloaded entries continue the client's hash chain from the most recent entry we know of
+        // (unless we only know the client's entries from a snapshot, which doesn't include all of them).
+        const integrityIssues = verifyDownloadedEntries(
+          remoteClientResults.map((result) => result.entry),
+          mostRecentEntry
+        );
+        if (integrityIssues.length > 0) {
+          log.warn(`Hash chain of oplog entries from client '${remoteClientId}' is broken:`, integrityIssues);
+          pluginResult.integrityIssues.push(...integrityIssues);
+        }
+
+        debug &&
+          log.debug(
+            `Downloaded ${remoteClientResults.length} oplog entries for remote client '${remoteClientId}':`,
+            countResultsByStatus(remoteClientResults)
+          );
+      }
+
+      if (options.uploadSnapshot && plugin.saveRemoteSnapshot) {
+        await plugin.saveRemoteSnapshot(await db.createOplogSnapshot());
+        debug && log.debug(`Uploaded oplog snapshot.`);
       }
 
       //TODO: Save any plugin settings that may have changed as part of the sync (e.g., the plugin updated its info
@@ -72,8 +159,124 @@ export async function sync(options: { forceFullSync?: boolean } = {}) {
       saveSyncProfile(syncProfile);
     } catch (error) {
       log.error(`Error while attempting to sync with ${pluginId}:`, error);
+      pluginResult.error = error;
+    }
+  }
+
+  return syncResult;
+}
+
+/**
+ * Applies a batch of downloaded oplog entries. If the batch can't be applied (e.g., one of the resulting objects can't
+ * be saved), none of its entries will have been applied; the entries are then applied one at a time so that only the
+ * problematic entries are rejected.
+ */
+async function applyRemoteEntries(remoteEntries: OpLogEntry[]): Promise<ApplyOplogEntryResult[]> {
+  try {
+    return await db.applyOplogEntries(remoteEntries);
+  } catch (error) {
+    log.warn(`Failed to apply batch of ${remoteEntries.length} oplog entries; applying them one at a time.`, error);
+  }
+
+  const results: ApplyOplogEntryResult[] = [];
+  for (const remoteEntry of remoteEntries) {
+    try {
+      results.push(await db.applyOplogEntry(remoteEntry));
+    } catch (error) {
+      log.error(`Rejected oplog entry:`, remoteEntry, error);
+      results.push({ entry: remoteEntry, status: 'rejected', reason: error.message });
+    }
+  }
+  return results;
+}
+
+/**
+ * Checks the hash chain of a remote client's downloaded entries (see `verifyEntryChain()`). `previousEntry` is the
+ * most recent entry from that client that was already in the oplog (`null` if there weren't any, `undefined` if it
+ * isn't known). Entries that are at or before `previousEntry`, or that were downloaded more than once, are ignored.
+ */
+function verifyDownloadedEntries(
+  entries: OpLogEntry[],
+  previousEntry: OpLogEntry | null | undefined
+): OplogIntegrityIssue[] {
+  const entriesByTime = new Map<string, OpLogEntry>();
+  for (const entry of entries) {
+    if (!previousEntry || entry.hlcTime > previousEntry.hlcTime) {
+      entriesByTime.set(entry.hlcTime, entry);
+    }
+  }
+  const sortedEntries = Array.from(entriesByTime.values()).sort((a, b) => (a.hlcTime < b.hlcTime ? -1 : 1));
+  return verifyEntryChain(sortedEntries, previousEntry);
+}
+
+function countResultsByStatus(results: ApplyOplogEntryResult[]): Record<ApplyOplogEntryResult['status'], number> {
+  const counts = { applied: 0, ignored: 0, rejected: 0, pending: 0 };
+  for (const result of results) {
+    counts[result.status]++;
+  }
+  return counts;
+}
+
+/**
+ * Reduces the size of the oplog by deleting superseded entries (i.e., entries for which a more recent entry for the same
+ * store + objectKey + prop exists). See `db.deleteSupersededEntries()` for the details on which entries are kept.
+ *
+ * To ensure that compaction never deletes any of this client's own entries that haven't been uploaded yet, each
+ * registered plugin is asked for the time of the most recent entry it has uploaded. Only own entries created before the
+ * earliest of those times can be deleted. If no plugins are registered (or any of them fails to return a valid time),
+ * none of this client's own entries are deleted.
+ *
+ * Pending change sets (i.e., those whose other entries haven't all been received yet; see `applyOplogEntries()`) that
+ * were recorded too long ago are deleted too (see `db.deletePendingChangeSets()`).
+ *
+ * @param options.historyRetentionMsec - superseded entries created within this many milliseconds of the current time
+ * are kept (e.g., so that recent changes can still be reviewed). Defaults to 0.
+ * @param options.pendingChangeSetRetentionMsec - pending change sets recorded within this many milliseconds of the
+ * current time are kept. Defaults to 30 days.
+ *
+ * @returns the number of entries that were deleted.
+ */
+export async function compactOplog(
+  options: { historyRetentionMsec?: number; pendingChangeSetRetentionMsec?: number } = {}
+): Promise<number> {
+  const { nodeId: localClientId } = db.getSettings();
+  const keepAfterTime = new Date(Date.now() - (options.historyRetentionMsec || 0));
+  const pendingChangeSetRetentionMsec =
+    options.pendingChangeSetRetentionMsec === undefined
+      ? db.DEFAULT_PENDING_CHANGE_SET_RETENTION_MSEC
+      : options.pendingChangeSetRetentionMsec;
+
+  let protectedAfterTime: Date | null = null;
+  if (plugins.length > 0) {
+    try {
+      const uploadedTimes: (Date | null)[] = await Promise.all(
+        plugins.map((plugin) => plugin.getMostRecentUploadedEntryTime())
+      );
+      // A plugin that doesn't return a time (e.g., it hasn't uploaded anything yet) protects ALL own entries.
+      const validTimes = uploadedTimes.filter((time): time is Date => time instanceof Date && !isNaN(time.getTime()));
+      protectedAfterTime =
+        validTimes.length === uploadedTimes.length
+          ? validTimes.reduce((earliest, time) => (time.getTime() < earliest.getTime() ? time : earliest))
+          : null;
+    } catch (error) {
+      log.error(`Won't compact own oplog entries; failed to get most recent uploaded entry time from plugin:`, error);
+      protectedAfterTime = null;
     }
   }
+
+  debug &&
+    log.debug(`Compacting oplog...`, {
+      keepAfterTime,
+      ownEntriesProtectedAfterTime: protectedAfterTime || 'all own entries protected',
+    });
+
+  const numDeletedPending = await db.deletePendingChangeSets(new Date(Date.now() - pendingChangeSetRetentionMsec));
+  const numDeleted = await db.deleteSupersededEntries({
+    keepAfterTime,
+    protectedClientId: localClientId,
+    protectedAfterTime,
+  });
+  return numDeletedPending + numDeleted;
 }
 
 export async function registerSyncPlugin(plugin: SyncPlugin) {
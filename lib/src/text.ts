@@ -0,0 +1,152 @@
+import { isTextDeletion, isTextInsertion } from './utils';
+
+/**
+ * A character of a text prop (see the `insertText` OpLogEntryOperation) along with its unique ID.
+ */
+export interface TextChar {
+  id: string;
+  char: string;
+}
+
+interface TextNode extends TextChar {
+  children: TextNode[];
+}
+
+/**
+ * Returns the ID of a character that was inserted by some oplog entry: the entry's `hlcTime`, followed by the index of
+ * the character in the inserted text (e.g., `'2021-01-24T13:23:14.203Z_0000_ab12cd34ef56ab78:2'`).
+ */
+export function toCharId(hlcTime: string, index: number): string {
+  return `${hlcTime}:${index}`;
+}
+
+/**
+ * Compares the IDs of two characters by the time they were inserted (and then by their index in the inserted text).
+ */
+export function compareCharIds(a: string, b: string): number {
+  const aSeparator = a.lastIndexOf(':');
+  const bSeparator = b.lastIndexOf(':');
+  const aTime = a.slice(0, aSeparator);
+  const bTime = b.slice(0, bSeparator);
+  if (aTime !== bTime) {
+    return aTime < bTime ? -1 : 1;
+  }
+  return Number(a.slice(aSeparator + 1)) - Number(b.slice(bSeparator + 1));
+}
+
+/**
+ * Returns the characters of a text prop, given the entry that most recently set the prop (if any) and the `insertText`/
+ * `deleteText` entries made after it. The entry that set the prop is treated as if its value (if it's a string) was
+ * inserted at the start of an empty text.
+ *
+ * The text is a "replicated growable array": each inserted character is placed after the character that it was
+ * inserted after (`null` meaning the start of the text). If several characters were inserted after the same character,
+ * the most recently inserted one comes first. This results in the same text regardless of the order in which the
+ * entries are received. Insertions that refer to a character which doesn't exist (e.g., one from before the prop was
+ * last set) are ignored. Deleted characters aren't included in the result.
+ */
+export function toChars(setEntry: OpLogEntry | undefined, textEntries: OpLogEntry[]): TextChar[] {
+  const root: TextNode = { id: '', char: '', children: [] };
+  const nodes = new Map<string, TextNode>();
+  const deletedIds = new Set<string>();
+
+  const insertions: { hlcTime: string; after: string | null; text: string }[] = [];
+  if (setEntry && typeof setEntry.value === 'string') {
+    insertions.push({ hlcTime: setEntry.hlcTime, after: null, text: setEntry.value });
+  }
+  for (const entry of textEntries) {
+    if (entry.operation === 'insertText' && isTextInsertion(entry.value)) {
+      insertions.push({ hlcTime: entry.hlcTime, ...entry.value });
+    } else if (entry.operation === 'deleteText' && isTextDeletion(entry.value)) {
+      entry.value.forEach((id) => deletedIds.add(id));
+    }
+  }
+
+  // A character can only be inserted after one that was inserted before it, so processing the insertions in order
+  // ensures that each one's "parent" is already known.
+  insertions.sort((a, b) => (a.hlcTime < b.hlcTime ? -1 : 1));
+  for (const { hlcTime, after, text } of insertions) {
+    let parent = after === null ? root : nodes.get(after);
+    if (!parent) {
+      continue;
+    }
+    Array.from(text).forEach((char, i) => {
+      const node: TextNode = { id: toCharId(hlcTime, i), char, children: [] };
+      (parent as TextNode).children.push(node);
+      nodes.set(node.id, node);
+      parent = node;
+    });
+  }
+
+  // Do a depth-first traversal of the tree (without recursion, since the tree is as deep as the text is long).
+  const chars: TextChar[] = [];
+  const stack = [...root.children].sort((a, b) => compareCharIds(a.id, b.id));
+  while (stack.length > 0) {
+    const node = stack.pop() as TextNode;
+    if (!deletedIds.has(node.id)) {
+      chars.push({ id: node.id, char: node.char });
+    }
+    // Children are pushed oldest-last so that the most recent one is popped first.
+    stack.push(...[...node.children].sort((a, b) => compareCharIds(a.id, b.id)));
+  }
+  return chars;
+}
+
+/**
+ * Returns the current value of a text prop (see `toChars()`).
+ */
+export function materialize(setEntry: OpLogEntry | undefined, textEntries: OpLogEntry[]): string {
+  return toChars(setEntry, textEntries)
+    .map(({ char }) => char)
+    .join('');
+}
+
+/**
+ * Returns a `TextSplice` that changes `oldText` to `newText`: the characters between their common prefix and suffix are
+ * replaced. Note that indexes are in characters (i.e., Unicode code points), not UTF-16 code units.
+ */
+export function diff(oldText: string, newText: string): TextSplice {
+  const oldChars = Array.from(oldText);
+  const newChars = Array.from(newText);
+
+  let prefixLength = 0;
+  while (
+    prefixLength < oldChars.length &&
+    prefixLength < newChars.length &&
+    oldChars[prefixLength] === newChars[prefixLength]
+  ) {
+    prefixLength++;
+  }
+
+  let suffixLength = 0;
+  while (
+    suffixLength < oldChars.length - prefixLength &&
+    suffixLength < newChars.length - prefixLength &&
+    oldChars[oldChars.length - 1 - suffixLength] === newChars[newChars.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+
+  return {
+    index: prefixLength,
+    deleteCount: oldChars.length - prefixLength - suffixLength,
+    insert: newChars.slice(prefixLength, newChars.length - suffixLength).join(''),
+  };
+}
+
+/**
+ * Converts a `TextSplice` for some text into the values of the oplog entries that describe it: the IDs of the deleted
+ * characters and the insertion (if any). Just like `Array.prototype.splice()`, an index that is out of range is moved
+ * to the nearest end of the text.
+ */
+export function toEntryValues(
+  chars: TextChar[],
+  splice: TextSplice
+): { deletion: string[]; insertion: OpLogTextInsertion | null } {
+  const index = Math.min(Math.max(splice.index, 0), chars.length);
+  const deleteCount = Math.min(Math.max(splice.deleteCount, 0), chars.length - index);
+  return {
+    deletion: chars.slice(index, index + deleteCount).map(({ id }) => id),
+    insertion: splice.insert ? { after: index > 0 ? chars[index - 1].id : null, text: splice.insert } : null,
+  };
+}
@@ -0,0 +1,256 @@
+import * as db from './db';
+import { proxyStore } from './IDBObjectStoreProxy';
+import { debug, getPathValue, isPlainObject, log, request, setPathValue, toPropPath, transaction } from './utils';
+
+export interface UndoManagerOptions {
+  /**
+   * The names of the object stores whose changes can be undone. If not specified, changes to any store can be undone.
+   */
+  stores?: string[];
+}
+
+/**
+ * Keeps track of the changes made by the app via proxied stores so that they can be undone (and redone). Each
+ * transaction in which oplog entries are recorded is one "undo group": undoing it restores the values that the changed
+ * props had before the transaction by recording new oplog entries, so that the undo is replicated to other clients just
+ * like any other change.
+ *
+ * Props that were changed by other clients after the transaction (e.g., during a sync) are left alone, as are objects
+ * that other clients have deleted since then. Also note that clearing a store can't be undone.
+ *
+ * @example
+ * ```
+ * const undoManager = new UndoManager({ stores: ['todos'] });
+ * // ...the app changes some todos using a proxied store...
+ * await undoManager.undo();
+ * await undoManager.redo();
+ * ```
+ */
+export class UndoManager {
+  private undoStack: OpLogEntry[][] = [];
+  private redoStack: OpLogEntry[][] = [];
+  // The transactions used to undo or redo a change (see `revert()`).
+  private revertTransactions = new WeakSet<IDBTransaction>();
+  private unsubscribe: () => void;
+  private options: UndoManagerOptions;
+
+  constructor(options: UndoManagerOptions = {}) {
+    this.options = options;
+    this.unsubscribe = db.onEntriesRecorded(this.onEntriesRecorded);
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Reverts the most recent change that hasn't been undone yet.
+   *
+   * @returns `false` if there was nothing to undo.
+   */
+  async undo(): Promise<boolean> {
+    const group = this.undoStack.pop();
+    if (!group) {
+      return false;
+    }
+    const revertEntries = await this.revert(group);
+    if (revertEntries.length > 0) {
+      this.redoStack.push(revertEntries);
+    }
+    return true;
+  }
+
+  /**
+   * Reverts the most recent undo (i.e., makes the change again), as long as no other changes have been made since.
+   *
+   * @returns `false` if there was nothing to redo.
+   */
+  async redo(): Promise<boolean> {
+    const group = this.redoStack.pop();
+    if (!group) {
+      return false;
+    }
+    const revertEntries = await this.revert(group);
+    if (revertEntries.length > 0) {
+      this.undoStack.push(revertEntries);
+    }
+    return true;
+  }
+
+  /**
+   * Forgets all of the changes that could be undone or redone.
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /**
+   * Stops keeping track of changes. Changes that were already tracked can still be undone.
+   */
+  stop(): void {
+    this.unsubscribe();
+  }
+
+  private onEntriesRecorded = (entries: OpLogEntry[], txReq: IDBTransaction) => {
+    if (this.revertTransactions.has(txReq)) {
+      return;
+    }
+
+    const stores = this.options.stores;
+    const group = entries.filter((entry) => entry.operation !== 'clear' && (!stores || stores.includes(entry.store)));
+    if (group.length > 0) {
+      this.undoStack.push(group);
+      // As usual, redoing isn't possible once a new change has been made.
+      this.redoStack = [];
+    }
+  };
+
+  /**
+   * Restores the values that the props changed by some group of entries had before those entries were made, in a single
+   * transaction.
+   *
+   * @returns the entries that were recorded to do so.
+   */
+  private async revert(group: OpLogEntry[]): Promise<OpLogEntry[]> {
+    const { nodeId: localClientId } = db.getSettings();
+    const storeNames = group
+      .map((entry) => entry.store)
+      .filter((storeName, index, allStoreNames) => allStoreNames.indexOf(storeName) === index);
+
+    let recordedEntries: Promise<OpLogEntry[]> = Promise.resolve([]);
+    await transaction(
+      db.getDatabase(),
+      [db.OPLOG_STORE, db.META_STORE, ...storeNames],
+      'readwrite',
+      async (oplogStore, _metaStore, ...targetStores) => {
+        this.revertTransactions.add(oplogStore.transaction);
+        recordedEntries = db.getRecordedEntries(oplogStore.transaction);
+        for (const targetStore of targetStores) {
+          const storeEntries = group.filter((entry) => entry.store === targetStore.name);
+          const objectKeys = storeEntries
+            .map((entry) => JSON.stringify(entry.objectKey))
+            .filter((key, index, allKeys) => allKeys.indexOf(key) === index);
+          for (const objectKey of objectKeys) {
+            const objectEntries = storeEntries.filter((entry) => JSON.stringify(entry.objectKey) === objectKey);
+            await revertObjectEntries(targetStore, JSON.parse(objectKey), objectEntries, localClientId);
+          }
+        }
+      }
+    );
+    const revertEntries = await recordedEntries;
+
+    debug && log.debug(`Reverted ${group.length} oplog entries by recording ${revertEntries.length} entries.`);
+    return revertEntries;
+  }
+}
+
+/**
+ * Restores the values that an object's props had before some of its oplog entries (all made in the same transaction)
+ * were made, using proxied versions of `targetStore` so that new oplog entries are recorded. Increments are reverted by
+ * decrementing the prop (so that concurrent increments are still counted); everything else is reverted by setting the
+ * prop to its previous value. If the object didn't exist before, it's deleted; if the entries deleted it, it's
+ * re-created.
+ */
+async function revertObjectEntries(
+  targetStore: IDBObjectStore,
+  objectKey: OpLogEntry['objectKey'],
+  entries: OpLogEntry[],
+  localClientId: string
+): Promise<void> {
+  const [allEntries, current] = await Promise.all([
+    db.readObjectEntries(targetStore, objectKey),
+    request(targetStore.get(objectKey)),
+  ]);
+  const startTime = entries.reduce((earliest, entry) => (entry.hlcTime < earliest ? entry.hlcTime : earliest), '9');
+  const entryTimes = entries.map((entry) => entry.hlcTime);
+  const previous = db.foldObjectEntries(
+    targetStore,
+    objectKey,
+    allEntries.filter((entry) => entry.hlcTime < startTime)
+  );
+
+  const otherClientEntries = allEntries.filter(
+    (entry) => entry.hlcTime > startTime && !entryTimes.includes(entry.hlcTime) && entry.clientId !== localClientId
+  );
+  if (otherClientEntries.some((entry) => entry.operation === 'delete' || entry.operation === 'clear')) {
+    debug && log.debug(`Won't revert changes to an object that another client has deleted since:`, objectKey);
+    return;
+  }
+
+  // If the entries deleted the object, ALL of its previous props need to be restored.
+  const paths = entries.filter((entry) => entry.operation !== 'delete').map((entry) => toPropPath(entry.prop));
+  if (entries.some((entry) => entry.operation === 'delete')) {
+    paths.push(...(isPlainObject(previous) ? Object.keys(previous).map((prop) => [prop]) : [[]]));
+  }
+  const uniquePaths = paths
+    .map((path) => JSON.stringify(path))
+    .filter((path, index, allPaths) => allPaths.indexOf(path) === index)
+    .map((path) => JSON.parse(path) as string[]);
+
+  // A prop that was changed by another client afterwards (or one of its "ancestors" or "descendants", e.g., `theme` or
+  // `['theme', 'color']`) is left alone. Note that an empty path (i.e., the entire value) is related to every prop. The
+  // exception is a counter that was only incremented, both by the entries and by other clients; since increments are
+  // summed, undoing one doesn't affect the others.
+  const isRelatedPath = (a: string[], b: string[]) => a.every((name, i) => i >= b.length || b[i] === name);
+  const isIncrementOnly = (path: string[]) =>
+    entries.every((entry) => entry.operation === 'increment' || !isRelatedPath(path, toPropPath(entry.prop)));
+  const pathsToRevert = uniquePaths.filter(
+    (path) =>
+      !otherClientEntries.some(
+        (entry) =>
+          isRelatedPath(path, toPropPath(entry.prop)) &&
+          !(entry.operation === 'increment' && isIncrementOnly(path) && isSamePath(path, entry.prop))
+      )
+  );
+  if (pathsToRevert.length === 0) {
+    return;
+  }
+
+  const store = proxyStore(targetStore);
+  const canRevertAll = pathsToRevert.length === uniquePaths.length;
+  if (canRevertAll && (!isPlainObject(previous) || pathsToRevert.some((path) => path.length === 0))) {
+    // The object didn't exist (or wasn't an object), or the entire value was replaced, so it's reverted as a whole.
+    if (previous === undefined) {
+      if (current !== undefined) {
+        store.delete(objectKey);
+      }
+    } else {
+      store.put(previous, objectKey);
+    }
+    return;
+  } else if (previous !== undefined && !isPlainObject(previous)) {
+    return;
+  }
+
+  const changes: Record<string, unknown> = {};
+  const nestedChanges: Record<string, unknown> = {};
+  const increments: { path: string[]; amount: number }[] = [];
+  for (const path of pathsToRevert.filter((path) => path.length > 0)) {
+    const propEntries = entries.filter((entry) => isSamePath(path, entry.prop));
+    if (propEntries.length > 0 && propEntries.every((entry) => entry.operation === 'increment')) {
+      increments.push({ path, amount: propEntries.reduce((sum, entry) => sum + (entry.value as number), 0) });
+    } else {
+      // Note that if the prop didn't exist before, it's set to `undefined`.
+      setPathValue(path.length === 1 ? changes : nestedChanges, path, getPathValue(previous, path));
+    }
+  }
+
+  if (Object.keys(changes).length > 0) {
+    store.put(changes, objectKey);
+  }
+  if (Object.keys(nestedChanges).length > 0) {
+    proxyStore(targetStore, { flattenNestedObjects: true }).put(nestedChanges, objectKey);
+  }
+  for (const { path, amount } of increments) {
+    store.decrement(objectKey, path, amount);
+  }
+}
+
+function isSamePath(path: string[], prop: OpLogEntry['prop']): boolean {
+  return JSON.stringify(path) === JSON.stringify(toPropPath(prop));
+}
@@ -47,6 +47,210 @@ export function isSupportedObjectKey(thing: unknown): thing is IDBValidKey {
   return false;
 }
 
+/**
+ * Utility function for getting the value at some `keyPath` of an object. Supports "nested" key paths using dot-notation
+ * (e.g., `getKeyPathValue({ meta: { id: 1 } }, 'meta.id')` returns `1`), just like IndexedDB does.
+ *
+ * @returns the value, or `undefined` if the object (or one of the nested objects) doesn't have the property.
+ */
+export function getKeyPathValue(obj: unknown, keyPath: string): unknown {
+  return getPathValue(obj, keyPath.split('.'));
+}
+
+/**
+ * Utility function for setting the value at some `keyPath` of an object, creating nested objects as needed if the key
+ * path uses dot-notation (e.g., setting `meta.id` on `{}` results in `{ meta: { id: 1 } }`).
+ */
+export function setKeyPathValue(obj: Record<string, any>, keyPath: string, value: unknown): void {
+  setPathValue(obj, keyPath.split('.'), value);
+}
+
+/**
+ * Same as `getKeyPathValue()`, but for a path that has already been split into property names (e.g., `['meta', 'id']`).
+ */
+export function getPathValue(obj: unknown, path: string[]): unknown {
+  let value: any = obj;
+  for (const prop of path) {
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return undefined;
+    }
+    value = value[prop];
+  }
+  return value;
+}
+
+/**
+ * Same as `setKeyPathValue()`, but for a path that has already been split into property names (e.g., `['meta', 'id']`).
+ * Note that any existing nested objects along the path are copied before being modified so that objects that might be
+ * shared with other code (e.g., an object passed to `put()` or an oplog entry's value) aren't mutated. If something
+ * along the path isn't a plain object (e.g., a string or an array), it's replaced with one.
+ */
+export function setPathValue(obj: Record<string, any>, path: string[], value: unknown): void {
+  let current = obj;
+  for (let i = 0; i < path.length - 1; i++) {
+    const next = current[path[i]];
+    current[path[i]] = isPlainObject(next) ? { ...next } : {};
+    current = current[path[i]];
+  }
+  current[path[path.length - 1]] = value;
+}
+
+/**
+ * Type guard for checking if something is a "plain" object (e.g., `{ foo: 1 }`) as opposed to an array, Date, etc.
+ */
+export function isPlainObject(thing: unknown): thing is Record<string, unknown> {
+  if (thing === null || typeof thing !== 'object') {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(thing);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Serializes a value to JSON with the keys of objects sorted, and with non-ASCII characters escaped (e.g., murmurhash
+ * only handles ASCII), so that equal values always produce the same string.
+ */
+export function toCanonicalJson(value: unknown): string {
+  return JSON.stringify(sortKeys(value)).replace(
+    /[\u0080-\uffff]/g,
+    (char) => '\\u' + ('000' + char.charCodeAt(0).toString(16)).slice(-4)
+  );
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  } else if (isPlainObject(value)) {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = sortKeys(value[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * Converts an OpLogEntry's `prop` to a path array. For example, `'theme'` => `['theme']`, `['theme', 'color']` =>
+ * `['theme', 'color']`, and `''` (i.e., the entry doesn't refer to a property) => `[]`.
+ */
+export function toPropPath(prop: OpLogEntry['prop']): string[] {
+  if (Array.isArray(prop)) {
+    return prop;
+  }
+  return prop === '' ? [] : [prop];
+}
+
+/**
+ * The opposite of `toPropPath()`: converts a path array to the value that should be used for an OpLogEntry's `prop`.
+ * Paths with a single property name are always converted to a string (i.e., `['theme']` => `'theme'`) so that there's
+ * only one possible `prop` value for any property; otherwise last-writer-wins wouldn't work when comparing entries
+ * recorded with (and without) path-based props.
+ */
+export function fromPropPath(path: string[]): OpLogEntry['prop'] {
+  return path.length === 1 ? path[0] : path;
+}
+
+/**
+ * "Flattens" a value into a list of paths to its leaf values, where a leaf is anything other than a non-empty plain
+ * object. For example, `{ theme: { color: 'red', font: 'Arial' }, tags: ['a'] }` is flattened to
+ * `[{ path: ['theme', 'color'], value: 'red' }, { path: ['theme', 'font'], value: 'Arial' }, { path: ['tags'], value:
+ * ['a'] }]`. Note that empty objects are leaves; setting a prop to `{}` replaces whatever was there before.
+ */
+export function flattenObject(obj: Record<string, unknown>, parentPath: string[] = []) {
+  const leaves: { path: string[]; value: unknown }[] = [];
+  for (const prop in obj) {
+    const path = [...parentPath, prop];
+    const value = obj[prop];
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      leaves.push(...flattenObject(value, path));
+    } else {
+      leaves.push({ path, value });
+    }
+  }
+  return leaves;
+}
+
+/**
+ * Returns the result of incrementing a counter's current value by `amount` (see the `increment` OpLogEntryOperation).
+ * If the current value isn't a number (e.g., the prop hasn't been set yet), it's treated as 0.
+ */
+export function incrementValue(currentValue: unknown, amount: number): number {
+  return (typeof currentValue === 'number' ? currentValue : 0) + amount;
+}
+
+/**
+ * Returns the elements of an "observed-remove set" prop (see the `addElement` OpLogEntryOperation), given the entry that
+ * most recently set the prop (if any) and the `addElement`/`removeElement` entries made after it. An element is kept if
+ * at least one of its additions wasn't removed. Elements are compared by their JSON representation and are returned in
+ * the order they were first added (i.e., the elements from `setEntry` first); duplicates are omitted.
+ */
+export function materializeElements(setEntry: OpLogEntry | undefined, elementEntries: OpLogEntry[]): unknown[] {
+  const additions: { tag: string; element: unknown }[] = [];
+  if (setEntry && Array.isArray(setEntry.value)) {
+    for (const element of setEntry.value) {
+      additions.push({ tag: setEntry.hlcTime, element });
+    }
+  }
+
+  const removedTags = new Set<string>();
+  for (const entry of [...elementEntries].sort((a, b) => (a.hlcTime < b.hlcTime ? -1 : 1))) {
+    if (entry.operation === 'addElement') {
+      additions.push({ tag: entry.hlcTime, element: entry.value });
+    } else if (entry.operation === 'removeElement' && isElementRemoval(entry.value)) {
+      const element = JSON.stringify(entry.value.element);
+      for (const tag of entry.value.tags) {
+        removedTags.add(JSON.stringify([tag, element]));
+      }
+    }
+  }
+
+  const elements: unknown[] = [];
+  const found = new Set<string>();
+  for (const { tag, element } of additions) {
+    const json = JSON.stringify(element);
+    if (!found.has(json) && !removedTags.has(JSON.stringify([tag, json]))) {
+      found.add(json);
+      elements.push(element);
+    }
+  }
+  return elements;
+}
+
+/**
+ * Returns the result of adding an element to an array (see the `addElement` OpLogEntryOperation) without changing the
+ * original array. If the current value isn't an array, it's treated as an empty one. If the array already contains the
+ * element, it isn't added again.
+ */
+export function addElementValue(currentValue: unknown, element: unknown): unknown[] {
+  const elements = Array.isArray(currentValue) ? currentValue : [];
+  const json = JSON.stringify(element);
+  return elements.some((existing) => JSON.stringify(existing) === json) ? [...elements] : [...elements, element];
+}
+
+/**
+ * Returns the result of removing an element from an array (see the `removeElement` OpLogEntryOperation) without
+ * changing the original array. If the current value isn't an array, it's treated as an empty one.
+ */
+export function removeElementValue(currentValue: unknown, element: unknown): unknown[] {
+  const elements = Array.isArray(currentValue) ? currentValue : [];
+  const json = JSON.stringify(element);
+  return elements.filter((existing) => JSON.stringify(existing) !== json);
+}
+
+/**
+ * All of the values that an OpLogEntry's (optional) `operation` property can have.
+ */
+export const OPLOG_ENTRY_OPERATIONS: OpLogEntryOperation[] = [
+  'delete',
+  'clear',
+  'increment',
+  'addElement',
+  'removeElement',
+  'insertText',
+  'deleteText',
+];
+
 /**
  * Type guard for safely asserting that something is an OpLogEntry.
  */
@@ -84,6 +288,134 @@ export function throwIfInvalidOpLogEntry(thing: unknown): void {
   if (!isSupportedObjectKey(candidate.objectKey)) {
     throw new Error('"objectKey" property is an unsupported type');
   }
+
+  if (Array.isArray(candidate.prop)) {
+    if (candidate.prop.length < 2 || candidate.prop.some((prop) => typeof prop !== 'string')) {
+      throw new Error('Object with an array "prop" property must have 2+ strings in the array');
+    }
+  } else if (typeof candidate.prop !== 'string') {
+    throw new Error('Object must have "prop" property set to a string or an array of strings');
+  }
+
+  if (candidate.changeSetId !== undefined && typeof candidate.changeSetId !== 'string') {
+    throw new Error('"changeSetId" property must be a string');
+  }
+
+  if (candidate.changeSetSize !== undefined) {
+    if (!Number.isInteger(candidate.changeSetSize) || candidate.changeSetSize < 1) {
+      throw new Error('"changeSetSize" property must be a positive integer');
+    }
+    if (candidate.changeSetId === undefined) {
+      throw new Error('Object with a "changeSetSize" property must also have a "changeSetId" property');
+    }
+  }
+
+  if (
+    candidate.schemaVersion !== undefined &&
+    (!Number.isInteger(candidate.schemaVersion) || candidate.schemaVersion < 1)
+  ) {
+    throw new Error('"schemaVersion" property must be a positive integer');
+  }
+
+  if (candidate.hash !== undefined && typeof candidate.hash !== 'string') {
+    throw new Error('"hash" property must be a string');
+  }
+
+  if (candidate.prevHash !== undefined && candidate.prevHash !== null && typeof candidate.prevHash !== 'string') {
+    throw new Error('"prevHash" property must be a string or null');
+  }
+
+  if (candidate.operation !== undefined) {
+    if (!OPLOG_ENTRY_OPERATIONS.includes(candidate.operation)) {
+      throw new Error(`"operation" property must be one of: ${OPLOG_ENTRY_OPERATIONS.join(', ')}`);
+    }
+
+    if ((candidate.operation === 'delete' || candidate.operation === 'clear') && candidate.prop !== '') {
+      throw new Error(
+        `Object with "operation" set to "${candidate.operation}" must have "prop" set to an empty string`
+      );
+    }
+
+    if (candidate.operation === 'clear' && (!Array.isArray(candidate.objectKey) || candidate.objectKey.length !== 0)) {
+      throw new Error('Object with "operation" set to "clear" must have "objectKey" set to an empty array');
+    }
+
+    if (candidate.operation === 'increment') {
+      if (candidate.prop === '') {
+        throw new Error('Object with "operation" set to "increment" must have "prop" set to a non-empty string');
+      }
+      if (typeof candidate.value !== 'number' || !isFinite(candidate.value)) {
+        throw new Error('Object with "operation" set to "increment" must have "value" set to a finite number');
+      }
+    }
+
+    if (candidate.operation === 'addElement' || candidate.operation === 'removeElement') {
+      if (candidate.prop === '') {
+        throw new Error(
+          `Object with "operation" set to "${candidate.operation}" must have "prop" set to a non-empty string`
+        );
+      }
+      if (candidate.operation === 'removeElement' && !isElementRemoval(candidate.value)) {
+        throw new Error(
+          'Object with "operation" set to "removeElement" must have "value" set to an object with "element" and ' +
+            '"tags" (an array of hlcTime strings) properties'
+        );
+      }
+    }
+
+    if (candidate.operation === 'insertText' || candidate.operation === 'deleteText') {
+      if (candidate.prop === '') {
+        throw new Error(
+          `Object with "operation" set to "${candidate.operation}" must have "prop" set to a non-empty string`
+        );
+      }
+      if (candidate.operation === 'insertText' && !isTextInsertion(candidate.value)) {
+        throw new Error(
+          'Object with "operation" set to "insertText" must have "value" set to an object with "after" (a character ' +
+            'ID or null) and "text" (a string) properties'
+        );
+      }
+      if (candidate.operation === 'deleteText' && !isTextDeletion(candidate.value)) {
+        throw new Error(
+          'Object with "operation" set to "deleteText" must have "value" set to an array of character IDs'
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Type guard for checking if something is the value of a `removeElement` oplog entry.
+ */
+export function isElementRemoval(thing: unknown): thing is OpLogElementRemoval {
+  const candidate = thing as OpLogElementRemoval;
+  return (
+    !!candidate &&
+    typeof candidate === 'object' &&
+    'element' in candidate &&
+    Array.isArray(candidate.tags) &&
+    candidate.tags.every((tag) => typeof tag === 'string')
+  );
+}
+
+/**
+ * Type guard for checking if something is the value of an `insertText` oplog entry.
+ */
+export function isTextInsertion(thing: unknown): thing is OpLogTextInsertion {
+  const candidate = thing as OpLogTextInsertion;
+  return (
+    !!candidate &&
+    typeof candidate === 'object' &&
+    (candidate.after === null || typeof candidate.after === 'string') &&
+    typeof candidate.text === 'string'
+  );
+}
+
+/**
+ * Type guard for checking if something is the value of a `deleteText` oplog entry (i.e., an array of character IDs).
+ */
+export function isTextDeletion(thing: unknown): thing is string[] {
+  return Array.isArray(thing) && thing.every((id) => typeof id === 'string');
 }
 
 export function isValidSideSyncSettings(thing: unknown): thing is Settings {
@@ -100,6 +432,28 @@ export function isValidSideSyncSettings(thing: unknown): thing is Settings {
   return true;
 }
 
+/**
+ * Type guard for checking if something is shaped like an OplogSnapshot. Note that the snapshot's entries aren't
+ * validated here; they're validated individually when the snapshot is applied.
+ */
+export function isValidOplogSnapshot(thing: unknown): thing is OplogSnapshot {
+  if (!thing) {
+    return false;
+  }
+
+  const candidate = thing as OplogSnapshot;
+
+  if (typeof candidate.clientId !== 'string' || !Array.isArray(candidate.entries)) {
+    return false;
+  }
+
+  if (!candidate.clientWatermarks || typeof candidate.clientWatermarks !== 'object') {
+    return false;
+  }
+
+  return Object.values(candidate.clientWatermarks).every((hlcTime) => typeof hlcTime === 'string');
+}
+
 interface EventTargetWithError extends EventTarget {
   error?: DOMException;
 }
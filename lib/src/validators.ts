@@ -0,0 +1,68 @@
+import { libName } from './utils';
+
+/**
+ * A function that decides whether an oplog entry received from another client makes sense for the app's data model
+ * (e.g., that a `priority` is a number). It must return `true` if the entry is valid; anything else (e.g., `false`, or a
+ * string describing the problem) means the entry is rejected. A validator that throws rejects the entry too.
+ *
+ * Note that the validator receives the entry itself, not the resulting object: for entries with an `operation`, `value`
+ * is the operation's argument (e.g., the amount of an increment; see OpLogEntry), and "delete" and "clear" entries
+ * don't have a value at all.
+ */
+export type EntryValidator = (entry: OpLogEntry) => boolean | string;
+
+const validators = new Map<string, EntryValidator>();
+
+/**
+ * Use this function to register a validator (see `EntryValidator`) for the oplog entries that other clients make to a
+ * store. Each entry is validated before it's applied (see `applyOplogEntries()`), and entries that are rejected aren't
+ * applied or added to the oplog; instead, their result has a `status` of `'rejected'` (e.g., in the `downloaded`
+ * results returned by `sync()`). Since the entries of a change set are meant to be applied as a whole, the other
+ * entries of a rejected entry's change set that are applied along with it are rejected too.
+ *
+ * Entries made by this client (i.e., via a proxied store) aren't validated.
+ *
+ * @example
+ * ```
+ * IDBSideSync.registerEntryValidator('todos', (entry) =>
+ *   entry.prop !== 'priority' || typeof entry.value === 'number' || 'priority must be a number'
+ * );
+ * ```
+ */
+export function registerEntryValidator(store: string, validator: EntryValidator): void {
+  if (typeof validator !== 'function') {
+    throw new Error(`${libName}: invalid entry validator for "${store}": ${validator}`);
+  }
+  validators.set(store, validator);
+}
+
+/**
+ * Removes a validator that was registered with `registerEntryValidator()`.
+ */
+export function unregisterEntryValidator(store: string): void {
+  validators.delete(store);
+}
+
+/**
+ * Validates an oplog entry using the validator registered for its store, if any.
+ *
+ * @returns the reason the entry is rejected, or `null` if it's valid.
+ */
+export function findValidationError(entry: OpLogEntry): string | null {
+  const validator = validators.get(entry.store);
+  if (!validator) {
+    return null;
+  }
+
+  let result: boolean | string;
+  try {
+    result = validator(entry);
+  } catch (error) {
+    return `the entry's validator threw an error: ${error instanceof Error ? error.message : error}`;
+  }
+
+  if (result === true) {
+    return null;
+  }
+  return typeof result === 'string' && result !== '' ? result : `the entry's validator rejected it`;
+}
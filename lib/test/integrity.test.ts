@@ -0,0 +1,95 @@
+/// <reference types="../../types/common" />
+import { expect, describe, it } from '@jest/globals';
+import { hashOplogEntry, verifyEntryChain } from '../src/integrity';
+import { makeClientId } from '../src/utils';
+
+describe('integrity', () => {
+  const clientId = makeClientId();
+
+  function makeChain(values: unknown[]): OpLogEntry[] {
+    let prevHash: string | null = null;
+    return values.map((value, i) => {
+      const entry: OpLogEntry = {
+        clientId,
+        hlcTime: `2021-01-24T13:23:14.203Z_000${i}_${clientId}`,
+        store: 'todos',
+        objectKey: 1,
+        prop: 'name',
+        value,
+        prevHash,
+      };
+      entry.hash = hashOplogEntry(entry);
+      prevHash = entry.hash;
+      return entry;
+    });
+  }
+
+  describe('hashOplogEntry()', () => {
+    it("doesn't depend on the order of the entry's keys", () => {
+      const [entry] = makeChain([{ a: 1, b: 'two' }]);
+      const reordered = { ...entry, value: { b: 'two', a: 1 } };
+      expect(hashOplogEntry(reordered)).toBe(entry.hash);
+    });
+
+    it('changes when the value or the previous hash changes, including non-ASCII values', () => {
+      const [entry] = makeChain(['café']);
+      expect(hashOplogEntry({ ...entry, value: 'cafe' })).not.toBe(entry.hash);
+      expect(hashOplogEntry({ ...entry, value: 'cafë' })).not.toBe(entry.hash);
+      expect(hashOplogEntry({ ...entry, prevHash: '0' })).not.toBe(entry.hash);
+    });
+
+    it('hashes the original store and prop of migrated entries', () => {
+      const [entry] = makeChain(['buy cookies']);
+      const migrated = {
+        ...entry,
+        store: 'tasks',
+        prop: 'title',
+        schemaVersion: 2,
+        migratedFrom: { store: 'todos', prop: 'name' },
+      };
+      expect(hashOplogEntry(migrated)).toBe(entry.hash);
+    });
+  });
+
+  describe('verifyEntryChain()', () => {
+    it("doesn't find any issues in an intact chain", () => {
+      const entries = makeChain(['a', 'b', 'c']);
+      expect(verifyEntryChain(entries, null)).toEqual([]);
+      expect(verifyEntryChain(entries.slice(1), entries[0])).toEqual([]);
+      expect(verifyEntryChain(entries.slice(1))).toEqual([]);
+    });
+
+    it('finds modified entries', () => {
+      const entries = makeChain(['a', 'b', 'c']);
+      entries[1] = { ...entries[1], value: 'x' };
+      expect(verifyEntryChain(entries, null)).toEqual([{ type: 'modified', entry: entries[1] }]);
+    });
+
+    it('finds gaps, unless the chain might have been truncated there', () => {
+      const entries = makeChain(['a', 'b', 'c', 'd']);
+      const withGap = [entries[0], entries[2], entries[3]];
+      expect(verifyEntryChain(withGap, null)).toEqual([{ type: 'gap', entry: entries[2] }]);
+      expect(verifyEntryChain(entries.slice(1), null)).toEqual([{ type: 'gap', entry: entries[1] }]);
+      expect(verifyEntryChain(withGap, null, { truncatedThrough: entries[1].hlcTime })).toEqual([]);
+      expect(verifyEntryChain(entries.slice(2), entries[0])).toEqual([{ type: 'gap', entry: entries[2] }]);
+    });
+
+    it('finds reordered entries', () => {
+      const entries = makeChain(['a', 'b', 'c']);
+      const swapped = [entries[0], { ...entries[2], hlcTime: entries[1].hlcTime }];
+      swapped[1].hash = hashOplogEntry(swapped[1]);
+      const reordered = [...swapped, { ...entries[1], hlcTime: entries[2].hlcTime }];
+      reordered[2].hash = hashOplogEntry(reordered[2]);
+
+      expect(verifyEntryChain(reordered, null).map(({ type }) => type)).toEqual(['gap', 'reordered']);
+    });
+
+    it('skips entries without a hash', () => {
+      const entries = makeChain(['a', 'b']);
+      const unchained: OpLogEntry = { ...entries[0], hlcTime: entries[0].hlcTime.replace('_0000_', '_000a_') };
+      delete unchained.hash;
+      delete unchained.prevHash;
+      expect(verifyEntryChain([...entries, unchained], null)).toEqual([]);
+    });
+  });
+});
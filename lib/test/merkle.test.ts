@@ -0,0 +1,57 @@
+/// <reference types="../../types/common" />
+import { expect, describe, it } from '@jest/globals';
+
+import { HLTime } from '../src/HLTime';
+import * as merkle from '../src/merkle';
+
+describe('merkle', () => {
+  const node1 = '0000000000000001';
+  const node2 = '0000000000000002';
+  const baseMillis = Date.parse('2021-01-24T13:23:14.203Z');
+  const minutes = (n: number) => n * 60 * 1000;
+
+  const time1 = new HLTime(baseMillis, 0, node1);
+  const time2 = new HLTime(baseMillis + minutes(1), 0, node1);
+  const time3 = new HLTime(baseMillis + minutes(5), 0, node2);
+  const time4 = new HLTime(baseMillis + minutes(5), 1, node2);
+
+  it('timeToKey() and keyToTime() are (roughly) inverse operations', () => {
+    const key = merkle.timeToKey(time1);
+    expect(key).toMatch(/^[012]{16}$/);
+    expect(merkle.keyToTime(key)).toEqual(Math.floor(baseMillis / minutes(1)) * minutes(1));
+  });
+
+  it('insert() results in the same tree regardless of insertion order', () => {
+    const tree1 = merkle.build([time1, time2, time3]);
+    const tree2 = merkle.build([time3, time1, time2]);
+    expect(tree1).toEqual(tree2);
+    expect(tree1.hash).not.toEqual(0);
+  });
+
+  it(`insert() doesn't modify the tree that is passed in`, () => {
+    const tree = merkle.build([time1]);
+    const treeCopy = JSON.parse(JSON.stringify(tree));
+    merkle.insert(tree, time2);
+    expect(tree).toEqual(treeCopy);
+  });
+
+  it('diff() returns null if trees are the same', () => {
+    expect(merkle.diff(merkle.build([time1, time2]), merkle.build([time2, time1]))).toBeNull();
+    expect(merkle.diff(merkle.emptyTree(), merkle.emptyTree())).toBeNull();
+  });
+
+  it('diff() returns the minute of the earliest difference', () => {
+    const tree1 = merkle.build([time1, time2, time3]);
+    const tree2 = merkle.build([time1, time2, time4]);
+    expect(merkle.diff(tree1, tree2)).toEqual(Math.floor(time3.millis() / minutes(1)) * minutes(1));
+
+    const tree3 = merkle.build([time1, time3]);
+    expect(merkle.diff(tree1, tree3)).toEqual(Math.floor(time2.millis() / minutes(1)) * minutes(1));
+    expect(merkle.diff(tree3, tree1)).toEqual(merkle.diff(tree1, tree3));
+  });
+
+  it('diff() works when comparing against an empty tree', () => {
+    const tree = merkle.build([time2, time3]);
+    expect(merkle.diff(tree, merkle.emptyTree())).toEqual(Math.floor(time2.millis() / minutes(1)) * minutes(1));
+  });
+});
@@ -0,0 +1,96 @@
+/// <reference types="../../types/common" />
+import { afterEach, expect, describe, it } from '@jest/globals';
+import * as migrations from '../src/migrations';
+import { makeClientId } from '../src/utils';
+
+describe('migrations', () => {
+  const clientId = makeClientId();
+
+  function makeEntry(props: Partial<OpLogEntry> = {}): OpLogEntry {
+    return {
+      clientId,
+      hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}`,
+      store: 'todos',
+      objectKey: 1,
+      prop: 'name',
+      value: 'buy cookies',
+      ...props,
+    };
+  }
+
+  afterEach(() => {
+    migrations.clearMigrations();
+  });
+
+  describe('registerMigration()', () => {
+    it('throws if the version or migration is invalid', () => {
+      expect(() => migrations.registerMigration(0, { type: 'renameStore', from: 'todos', to: 'tasks' })).toThrow();
+      expect(() => migrations.registerMigration(1.5, { type: 'renameStore', from: 'todos', to: 'tasks' })).toThrow();
+      expect(() => migrations.registerMigration(2, { type: 'renameStore', from: 'todos', to: '' })).toThrow();
+      expect(() =>
+        migrations.registerMigration(2, { type: 'renameProp', store: 'todos', from: '', to: 'a' })
+      ).toThrow();
+      // @ts-ignore
+      expect(() => migrations.registerMigration(2, { type: 'dropStore', store: 'todos' })).toThrow();
+    });
+  });
+
+  describe('migrateEntry()', () => {
+    it('returns the entry itself if no migrations apply', () => {
+      migrations.registerMigration(2, { type: 'renameStore', from: 'todos', to: 'tasks' });
+      const entry = makeEntry({ schemaVersion: 2 });
+      expect(migrations.migrateEntry(entry, 2)).toBe(entry);
+      expect(migrations.migrateEntry(entry, 3)).toBe(entry);
+      expect(migrations.hasMigrations(1, 2)).toBe(true);
+      expect(migrations.hasMigrations(2, 3)).toBe(false);
+    });
+
+    it('applies the migrations for later versions in order', () => {
+      migrations.registerMigration(3, { type: 'renameProp', store: 'tasks', from: 'name', to: 'title' });
+      migrations.registerMigration(2, { type: 'renameStore', from: 'todos', to: 'tasks' });
+      // A store's old name can be reused by a later version.
+      migrations.registerMigration(4, { type: 'renameStore', from: 'notes', to: 'todos' });
+
+      const entry = makeEntry();
+      const migratedFrom = { store: 'todos', prop: 'name' };
+      expect(migrations.migrateEntry(entry, 4)).toEqual({
+        ...entry,
+        store: 'tasks',
+        prop: 'title',
+        schemaVersion: 4,
+        migratedFrom,
+      });
+      expect(migrations.migrateEntry(entry, 2)).toEqual({ ...entry, store: 'tasks', schemaVersion: 2, migratedFrom });
+      expect(migrations.migrateEntry({ ...entry, schemaVersion: 3 }, 4)).toEqual({
+        ...entry,
+        schemaVersion: 4,
+        migratedFrom,
+      });
+      expect(migrations.migrateEntry({ ...entry, store: 'notes', schemaVersion: 3 }, 4)).toEqual({
+        ...entry,
+        store: 'todos',
+        schemaVersion: 4,
+        migratedFrom: { store: 'notes', prop: 'name' },
+      });
+    });
+
+    it('keeps the original store and prop of entries that are migrated more than once', () => {
+      migrations.registerMigration(2, { type: 'renameStore', from: 'todos', to: 'tasks' });
+      migrations.registerMigration(3, { type: 'renameProp', store: 'tasks', from: 'name', to: 'title' });
+
+      const migrated = migrations.migrateEntry(migrations.migrateEntry(makeEntry(), 2), 3);
+      expect(migrated).toMatchObject({ store: 'tasks', prop: 'title', migratedFrom: { store: 'todos', prop: 'name' } });
+    });
+
+    it('renames path-based props and the props under a renamed prop', () => {
+      migrations.registerMigration(2, { type: 'renameProp', store: 'todos', from: 'theme', to: 'style' });
+      migrations.registerMigration(3, { type: 'renameProp', store: 'todos', from: ['style', 'color'], to: 'color' });
+
+      expect(migrations.migrateEntry(makeEntry({ prop: 'theme' }), 2).prop).toBe('style');
+      expect(migrations.migrateEntry(makeEntry({ prop: ['theme', 'font'] }), 3).prop).toEqual(['style', 'font']);
+      expect(migrations.migrateEntry(makeEntry({ prop: ['theme', 'color'] }), 3).prop).toBe('color');
+      expect(migrations.migrateEntry(makeEntry({ prop: 'themes' }), 3).prop).toBe('themes');
+      expect(migrations.migrateEntry(makeEntry({ prop: '', operation: 'delete' }), 3).prop).toBe('');
+    });
+  });
+});
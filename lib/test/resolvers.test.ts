@@ -0,0 +1,116 @@
+/// <reference types="../../types/common" />
+import { afterEach, expect, describe, it } from '@jest/globals';
+import * as resolvers from '../src/resolvers';
+import { makeClientId } from '../src/utils';
+
+describe('resolvers', () => {
+  const clientId = makeClientId();
+  const STORE = 'players';
+
+  function makeEntry(millis: number, props: Partial<OpLogEntry> = {}): OpLogEntry {
+    return {
+      clientId,
+      hlcTime: `${new Date(Date.parse('2021-01-24T13:23:14.203Z') + millis).toISOString()}_0000_${clientId}`,
+      store: STORE,
+      objectKey: 1,
+      prop: 'score',
+      value: null,
+      ...props,
+    };
+  }
+
+  afterEach(() => {
+    resolvers.unregisterConflictResolver(STORE);
+    resolvers.unregisterConflictResolver(STORE, { prop: 'score' });
+  });
+
+  describe('resolveConflict()', () => {
+    it('uses last-writer-wins by default', () => {
+      const older = makeEntry(0, { value: 10 });
+      const newer = makeEntry(1, { value: 5 });
+      expect(resolvers.resolveConflict(older, newer)).toBe(newer);
+      expect(resolvers.resolveConflict(newer, older)).toBe(newer);
+    });
+
+    it.each([
+      ['fww', 10, 5, 'older'],
+      ['max', 10, 5, 'older'],
+      ['max', 5, 10, 'newer'],
+      ['max', 'b', 'a', 'older'],
+      ['max', 10, 10, 'newer'],
+      ['max', 10, '5', 'newer'],
+      ['min', 10, 5, 'newer'],
+      ['min', 5, 10, 'older'],
+      ['min', null, 10, 'newer'],
+    ])(`using '%s', resolves %p (older) vs. %p (newer) in favor of the %s entry`, (resolver, a, b, expected) => {
+      resolvers.registerConflictResolver(STORE, resolver as resolvers.ConflictResolver);
+      const older = makeEntry(0, { value: a });
+      const newer = makeEntry(1, { value: b });
+      const expectedWinner = expected === 'older' ? older : newer;
+      expect(resolvers.resolveConflict(older, newer)).toBe(expectedWinner);
+      expect(resolvers.resolveConflict(newer, older)).toBe(expectedWinner);
+    });
+
+    it('passes the entries to a custom resolver in the order they were made', () => {
+      const older = makeEntry(0, { value: 'foo' });
+      const newer = makeEntry(1, { value: 'bar' });
+      const calls: OpLogEntry[][] = [];
+      resolvers.registerConflictResolver(STORE, (a, b) => {
+        calls.push([a, b]);
+        return a;
+      });
+      expect(resolvers.resolveConflict(newer, older)).toBe(older);
+      expect(calls).toEqual([[older, newer]]);
+    });
+
+    it('throws error if a custom resolver returns something other than one of the entries', () => {
+      resolvers.registerConflictResolver(STORE, (a) => ({ ...a, hlcTime: 'foo' }));
+      expect(() => resolvers.resolveConflict(makeEntry(0), makeEntry(1))).toThrow();
+    });
+
+    it('prefers a resolver registered for the prop over one registered for the store', () => {
+      resolvers.registerConflictResolver(STORE, 'fww');
+      resolvers.registerConflictResolver(STORE, 'max', { prop: ['score'] });
+      const older = makeEntry(0, { value: 5 });
+      const newer = makeEntry(1, { value: 10 });
+      expect(resolvers.resolveConflict(older, newer)).toBe(newer);
+      expect(resolvers.resolveConflict({ ...older, prop: 'name' }, { ...newer, prop: 'name' })).toEqual({
+        ...older,
+        prop: 'name',
+      });
+    });
+
+    it(`always uses last-writer-wins for "delete" entries`, () => {
+      resolvers.registerConflictResolver(STORE, 'fww');
+      const older = makeEntry(0, { prop: '', value: 'foo' });
+      const newer = makeEntry(1, { prop: '', operation: 'delete' });
+      expect(resolvers.resolveConflict(older, newer)).toBe(newer);
+    });
+  });
+
+  describe('findWinningEntry()', () => {
+    it('returns the same winner regardless of the order of the entries', () => {
+      resolvers.registerConflictResolver(STORE, 'max', { prop: 'score' });
+      const entries = [makeEntry(0, { value: 3 }), makeEntry(1, { value: 8 }), makeEntry(2, { value: 8 })];
+      expect(resolvers.findWinningEntry(entries)).toBe(entries[2]);
+      expect(resolvers.findWinningEntry([...entries].reverse())).toBe(entries[2]);
+      expect(resolvers.findWinningEntry([])).toBeUndefined();
+    });
+  });
+
+  describe('registerConflictResolver()', () => {
+    it('throws error when passed an invalid resolver', () => {
+      //@ts-ignore
+      expect(() => resolvers.registerConflictResolver(STORE, 'foo')).toThrow();
+    });
+
+    it('hasConflictResolvers() ignores last-writer-wins resolvers', () => {
+      expect(resolvers.hasConflictResolvers(STORE)).toBe(false);
+      resolvers.registerConflictResolver(STORE, 'lww');
+      expect(resolvers.hasConflictResolvers(STORE)).toBe(false);
+      resolvers.registerConflictResolver(STORE, 'min', { prop: 'score' });
+      expect(resolvers.hasConflictResolvers(STORE)).toBe(true);
+      expect(resolvers.hasConflictResolvers('other')).toBe(false);
+    });
+  });
+});
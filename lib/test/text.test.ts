@@ -0,0 +1,87 @@
+/// <reference types="../../types/common" />
+import { expect, describe, it } from '@jest/globals';
+
+import * as text from '../src/text';
+
+describe('text', () => {
+  const node1 = '0000000000000001';
+  const node2 = '0000000000000002';
+  const time = (counter: string, node = node1) => `2021-01-24T13:23:14.203Z_${counter}_${node}`;
+
+  const entry = (hlcTime: string, value: unknown, operation?: OpLogEntryOperation): OpLogEntry => ({
+    clientId: hlcTime.slice(-16),
+    hlcTime,
+    store: 'todos',
+    objectKey: 1,
+    prop: 'notes',
+    value,
+    operation,
+  });
+
+  const setEntry = entry(time('0000'), 'ac');
+
+  it('compareCharIds() sorts by time, then by index', () => {
+    const ids = [text.toCharId(time('0001'), 10), text.toCharId(time('0001'), 2), text.toCharId(time('0000'), 5)];
+    expect(ids.sort(text.compareCharIds)).toEqual([
+      text.toCharId(time('0000'), 5),
+      text.toCharId(time('0001'), 2),
+      text.toCharId(time('0001'), 10),
+    ]);
+  });
+
+  it('materialize() treats the value of the entry that set the prop as the initial text', () => {
+    expect(text.materialize(setEntry, [])).toEqual('ac');
+    expect(text.materialize(entry(time('0000'), 123), [])).toEqual('');
+    expect(text.materialize(undefined, [])).toEqual('');
+  });
+
+  it('materialize() applies insertions and deletions', () => {
+    const textEntries = [
+      entry(time('0001'), { after: text.toCharId(setEntry.hlcTime, 0), text: 'b' }, 'insertText'),
+      entry(time('0002'), { after: null, text: '> ' }, 'insertText'),
+      entry(time('0003'), [text.toCharId(setEntry.hlcTime, 1)], 'deleteText'),
+      entry(time('0004'), { after: text.toCharId(time('0001'), 0), text: 'c!' }, 'insertText'),
+    ];
+    expect(text.materialize(setEntry, textEntries)).toEqual('> abc!');
+  });
+
+  it('materialize() merges concurrent insertions the same way, regardless of order', () => {
+    const after = text.toCharId(setEntry.hlcTime, 0);
+    const textEntries = [
+      entry(time('0001', node1), { after, text: 'xy' }, 'insertText'),
+      entry(time('0001', node2), { after, text: '12' }, 'insertText'),
+      entry(time('0002', node1), [text.toCharId(setEntry.hlcTime, 1)], 'deleteText'),
+    ];
+    const result = text.materialize(setEntry, textEntries);
+    expect(result).toEqual('a12xy');
+    expect(text.materialize(setEntry, [...textEntries].reverse())).toEqual(result);
+  });
+
+  it('materialize() ignores insertions after unknown characters', () => {
+    const textEntries = [entry(time('0001'), { after: text.toCharId(time('9999'), 0), text: 'z' }, 'insertText')];
+    expect(text.materialize(setEntry, textEntries)).toEqual('ac');
+  });
+
+  it('diff() returns the splice that changes one text into another', () => {
+    expect(text.diff('hello world', 'hello brave world')).toEqual({ index: 6, deleteCount: 0, insert: 'brave ' });
+    expect(text.diff('hello world', 'hello')).toEqual({ index: 5, deleteCount: 6, insert: '' });
+    expect(text.diff('abc', 'abc')).toEqual({ index: 3, deleteCount: 0, insert: '' });
+    expect(text.diff('a😀c', 'a😎c')).toEqual({ index: 1, deleteCount: 1, insert: '😎' });
+  });
+
+  it('toEntryValues() returns the deleted character IDs and the insertion for a splice', () => {
+    const chars = text.toChars(setEntry, []);
+    expect(text.toEntryValues(chars, { index: 1, deleteCount: 1, insert: 'b' })).toEqual({
+      deletion: [text.toCharId(setEntry.hlcTime, 1)],
+      insertion: { after: text.toCharId(setEntry.hlcTime, 0), text: 'b' },
+    });
+    expect(text.toEntryValues(chars, { index: 0, deleteCount: 0, insert: '' })).toEqual({
+      deletion: [],
+      insertion: null,
+    });
+    expect(text.toEntryValues(chars, { index: 10, deleteCount: 5, insert: '!' })).toEqual({
+      deletion: [],
+      insertion: { after: text.toCharId(setEntry.hlcTime, 1), text: '!' },
+    });
+  });
+});
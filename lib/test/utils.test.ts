@@ -38,6 +38,64 @@ describe('utils', () => {
     });
   });
 
+  describe('getKeyPathValue()', () => {
+    it.each([
+      [{ id: 1 }, 'id', 1],
+      [{ meta: { id: 1 } }, 'meta.id', 1],
+      [{ a: { b: { c: 'foo' } } }, 'a.b.c', 'foo'],
+      [{ meta: {} }, 'meta.id', undefined],
+      [{ meta: 'foo' }, 'meta.id', undefined],
+      [{}, 'meta.id', undefined],
+    ])('returns the value of %j at "%s"', (obj, keyPath, expectedResult) => {
+      expect(utils.getKeyPathValue(obj, keyPath)).toBe(expectedResult);
+    });
+  });
+
+  describe('setKeyPathValue()', () => {
+    it('sets flat and nested values, creating nested objects as needed', () => {
+      const obj: Record<string, unknown> = {};
+      utils.setKeyPathValue(obj, 'id', 1);
+      utils.setKeyPathValue(obj, 'meta.scope.id', 2);
+      expect(obj).toEqual({ id: 1, meta: { scope: { id: 2 } } });
+    });
+
+    it(`doesn't mutate existing nested objects`, () => {
+      const meta = { name: 'foo' };
+      const obj: Record<string, unknown> = { meta };
+      utils.setKeyPathValue(obj, 'meta.id', 1);
+      expect(obj).toEqual({ meta: { name: 'foo', id: 1 } });
+      expect(meta).toEqual({ name: 'foo' });
+    });
+  });
+
+  describe('flattenObject()', () => {
+    it('returns a path for each leaf value', () => {
+      const tags = ['a', 'b'];
+      expect(utils.flattenObject({ theme: { color: 'red', font: { size: 12 } }, tags, empty: {} })).toEqual([
+        { path: ['theme', 'color'], value: 'red' },
+        { path: ['theme', 'font', 'size'], value: 12 },
+        { path: ['tags'], value: tags },
+        { path: ['empty'], value: {} },
+      ]);
+    });
+  });
+
+  describe('toPropPath() / fromPropPath()', () => {
+    it.each([
+      ['', []],
+      ['theme', ['theme']],
+      [
+        ['theme', 'color'],
+        ['theme', 'color'],
+      ],
+    ])('converts prop "%j" to path "%j" and back', (prop, path) => {
+      expect(utils.toPropPath(prop)).toEqual(path);
+      if (prop !== '') {
+        expect(utils.fromPropPath(path)).toEqual(prop);
+      }
+    });
+  });
+
   describe('isValidOplogEntry()', () => {
     const clientId = makeClientId();
     const oplogEntry: OpLogEntry = {
@@ -92,5 +150,172 @@ describe('utils', () => {
         expect(utils.isValidOplogEntry(borkedEntry)).toBe(false);
       }
     );
+
+    it('correctly validates oplog entries with an array prop', () => {
+      const validEntry: OpLogEntry = { ...oplogEntry, hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}` };
+      expect(utils.isValidOplogEntry({ ...validEntry, prop: ['theme', 'color'] })).toBe(true);
+      expect(utils.isValidOplogEntry({ ...validEntry, prop: ['theme'] })).toBe(false);
+      expect(utils.isValidOplogEntry({ ...validEntry, prop: ['theme', 1] })).toBe(false);
+    });
+
+    it('returns false if oplog entry has an unknown operation', () => {
+      const validEntry: OpLogEntry = { ...oplogEntry, hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}` };
+      expect(utils.isValidOplogEntry(validEntry)).toBe(true);
+      expect(utils.isValidOplogEntry({ ...validEntry, operation: 'foo' })).toBe(false);
+    });
+
+    it('returns false if tombstone oplog entry has a non-empty prop', () => {
+      const tombstone: OpLogEntry = {
+        ...oplogEntry,
+        hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}`,
+        prop: '',
+        value: null,
+        operation: 'delete',
+      };
+      expect(utils.isValidOplogEntry(tombstone)).toBe(true);
+      expect(utils.isValidOplogEntry({ ...tombstone, prop: 'name' })).toBe(false);
+    });
+
+    it('correctly validates increment oplog entries', () => {
+      const increment: OpLogEntry = {
+        ...oplogEntry,
+        hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}`,
+        prop: 'quantity',
+        value: -2,
+        operation: 'increment',
+      };
+      expect(utils.isValidOplogEntry(increment)).toBe(true);
+      expect(utils.isValidOplogEntry({ ...increment, prop: ['stats', 'views'] })).toBe(true);
+      expect(utils.isValidOplogEntry({ ...increment, prop: '' })).toBe(false);
+      expect(utils.isValidOplogEntry({ ...increment, value: '2' })).toBe(false);
+      expect(utils.isValidOplogEntry({ ...increment, value: NaN })).toBe(false);
+    });
+
+    it('correctly validates addElement and removeElement oplog entries', () => {
+      const addition: OpLogEntry = {
+        ...oplogEntry,
+        hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}`,
+        prop: 'tags',
+        value: 'urgent',
+        operation: 'addElement',
+      };
+      const removal: OpLogEntry = {
+        ...addition,
+        hlcTime: `2021-01-24T13:23:14.203Z_0001_${clientId}`,
+        value: { element: 'urgent', tags: [addition.hlcTime] },
+        operation: 'removeElement',
+      };
+      expect(utils.isValidOplogEntry(addition)).toBe(true);
+      expect(utils.isValidOplogEntry({ ...addition, prop: '' })).toBe(false);
+      expect(utils.isValidOplogEntry(removal)).toBe(true);
+      expect(utils.isValidOplogEntry({ ...removal, prop: '' })).toBe(false);
+      expect(utils.isValidOplogEntry({ ...removal, value: 'urgent' })).toBe(false);
+      expect(utils.isValidOplogEntry({ ...removal, value: { element: 'urgent' } })).toBe(false);
+      expect(utils.isValidOplogEntry({ ...removal, value: { element: 'urgent', tags: [1] } })).toBe(false);
+    });
+
+    it('correctly validates insertText and deleteText oplog entries', () => {
+      const insertion: OpLogEntry = {
+        ...oplogEntry,
+        hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}`,
+        prop: 'notes',
+        value: { after: null, text: 'hello' },
+        operation: 'insertText',
+      };
+      const deletion: OpLogEntry = {
+        ...insertion,
+        hlcTime: `2021-01-24T13:23:14.203Z_0001_${clientId}`,
+        value: [`${insertion.hlcTime}:0`],
+        operation: 'deleteText',
+      };
+      expect(utils.isValidOplogEntry(insertion)).toBe(true);
+      expect(utils.isValidOplogEntry({ ...insertion, value: { after: `${insertion.hlcTime}:4`, text: '!' } })).toBe(
+        true
+      );
+      expect(utils.isValidOplogEntry({ ...insertion, prop: '' })).toBe(false);
+      expect(utils.isValidOplogEntry({ ...insertion, value: 'hello' })).toBe(false);
+      expect(utils.isValidOplogEntry({ ...insertion, value: { after: 1, text: 'hello' } })).toBe(false);
+      expect(utils.isValidOplogEntry(deletion)).toBe(true);
+      expect(utils.isValidOplogEntry({ ...deletion, prop: '' })).toBe(false);
+      expect(utils.isValidOplogEntry({ ...deletion, value: [0] })).toBe(false);
+    });
+
+    it('correctly validates change set properties', () => {
+      const validEntry: OpLogEntry = { ...oplogEntry, hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}` };
+      const changeSetId = validEntry.hlcTime;
+      expect(utils.isValidOplogEntry({ ...validEntry, changeSetId })).toBe(true);
+      expect(utils.isValidOplogEntry({ ...validEntry, changeSetId, changeSetSize: 3 })).toBe(true);
+      expect(utils.isValidOplogEntry({ ...validEntry, changeSetId: 1 })).toBe(false);
+      expect(utils.isValidOplogEntry({ ...validEntry, changeSetId, changeSetSize: 0 })).toBe(false);
+      expect(utils.isValidOplogEntry({ ...validEntry, changeSetId, changeSetSize: 1.5 })).toBe(false);
+      expect(utils.isValidOplogEntry({ ...validEntry, changeSetSize: 3 })).toBe(false);
+    });
+  });
+
+  describe('materializeElements()', () => {
+    const clientId = makeClientId();
+    const time = (counter: string) => `2021-01-24T13:23:14.203Z_${counter}_${clientId}`;
+    const entry = (counter: string, value: unknown, operation?: OpLogEntryOperation): OpLogEntry => ({
+      clientId,
+      hlcTime: time(counter),
+      store: 'foo',
+      objectKey: 1,
+      prop: 'tags',
+      value,
+      operation,
+    });
+
+    it('returns the elements that were added and not removed, without duplicates', () => {
+      const elementEntries = [
+        entry('0001', 'a', 'addElement'),
+        entry('0002', 'b', 'addElement'),
+        entry('0003', 'a', 'addElement'),
+        entry('0004', { element: 'b', tags: [time('0002')] }, 'removeElement'),
+      ];
+      expect(utils.materializeElements(undefined, elementEntries)).toEqual(['a']);
+    });
+
+    it('keeps an element if any of its additions was not removed', () => {
+      const elementEntries = [
+        entry('0001', 'a', 'addElement'),
+        entry('0002', 'a', 'addElement'),
+        entry('0003', { element: 'a', tags: [time('0001')] }, 'removeElement'),
+      ];
+      expect(utils.materializeElements(undefined, elementEntries)).toEqual(['a']);
+    });
+
+    it('includes the elements of the entry that set the prop', () => {
+      const setEntry = entry('0000', ['a', 'b']);
+      const elementEntries = [
+        entry('0002', { element: 'a', tags: [time('0000')] }, 'removeElement'),
+        entry('0001', { id: 1 }, 'addElement'),
+      ];
+      expect(utils.materializeElements(setEntry, elementEntries)).toEqual(['b', { id: 1 }]);
+    });
+  });
+
+  describe('isValidOplogSnapshot()', () => {
+    const clientId = makeClientId();
+    const snapshot: OplogSnapshot = {
+      clientId,
+      entries: [],
+      clientWatermarks: { [clientId]: `2021-01-24T13:23:14.203Z_0000_${clientId}` },
+    };
+
+    it('returns true for a valid snapshot', () => {
+      expect(utils.isValidOplogSnapshot(snapshot)).toBe(true);
+    });
+
+    it('returns false if snapshot is missing a required property', () => {
+      for (let key in snapshot) {
+        const { [key as keyof OplogSnapshot]: pluckedKey, ...snapshotSansProp } = snapshot;
+        expect(utils.isValidOplogSnapshot(snapshotSansProp)).toBe(false);
+      }
+    });
+
+    it.each([null, 123, {}, []])('returns false if snapshot.clientWatermarks has a "%s" watermark', (borkedTime) => {
+      const borkedSnapshot = { ...snapshot, clientWatermarks: { [clientId]: borkedTime } };
+      expect(utils.isValidOplogSnapshot(borkedSnapshot)).toBe(false);
+    });
   });
 });
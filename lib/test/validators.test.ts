@@ -0,0 +1,55 @@
+/// <reference types="../../types/common" />
+import { afterEach, expect, describe, it } from '@jest/globals';
+import * as validators from '../src/validators';
+import { makeClientId } from '../src/utils';
+
+describe('validators', () => {
+  const clientId = makeClientId();
+  const STORE = 'todos';
+
+  function makeEntry(props: Partial<OpLogEntry> = {}): OpLogEntry {
+    return {
+      clientId,
+      hlcTime: `2021-01-24T13:23:14.203Z_0000_${clientId}`,
+      store: STORE,
+      objectKey: 1,
+      prop: 'priority',
+      value: 1,
+      ...props,
+    };
+  }
+
+  afterEach(() => {
+    validators.unregisterEntryValidator(STORE);
+  });
+
+  describe('registerEntryValidator()', () => {
+    it('throws if the validator is not a function', () => {
+      // @ts-ignore
+      expect(() => validators.registerEntryValidator(STORE, 'number')).toThrow();
+    });
+  });
+
+  describe('findValidationError()', () => {
+    it('accepts every entry if no validator was registered for its store', () => {
+      expect(validators.findValidationError(makeEntry({ value: {} }))).toBeNull();
+    });
+
+    it(`returns the validator's reason, or a default one`, () => {
+      validators.registerEntryValidator(STORE, (entry) => typeof entry.value === 'number' || 'must be a number');
+      expect(validators.findValidationError(makeEntry())).toBeNull();
+      expect(validators.findValidationError(makeEntry({ value: {} }))).toBe('must be a number');
+      expect(validators.findValidationError(makeEntry({ store: 'notes', value: {} }))).toBeNull();
+
+      validators.registerEntryValidator(STORE, () => false);
+      expect(validators.findValidationError(makeEntry())).toBe(`the entry's validator rejected it`);
+    });
+
+    it('rejects the entry if the validator throws', () => {
+      validators.registerEntryValidator(STORE, () => {
+        throw new Error('oops');
+      });
+      expect(validators.findValidationError(makeEntry())).toBe(`the entry's validator threw an error: oops`);
+    });
+  });
+});
@@ -638,6 +638,57 @@ export class GoogleDrivePlugin implements SyncPlugin {
     });
   }
 
+  /**
+   * Returns the oplog snapshot stored in the plugin's Google Drive folder, or `null` if no snapshot has been uploaded.
+   */
+  public async getRemoteSnapshot(): Promise<OplogSnapshot | null> {
+    debug && log.debug('Attempting to get oplog snapshot from Google Drive.');
+
+    const { files } = await this.getFileListPage({
+      type: 'files',
+      exactName: FILENAME_PART.snapshot,
+      limitToPluginFolder: true,
+    });
+
+    if (files.length === 0) {
+      debug && log.debug(`No oplog snapshot found.`);
+      return null;
+    }
+
+    const file = files[0];
+    try {
+      debug && log.debug(`Attempting to download '${file.name}' (file ID: ${file.id}).`);
+      const response = await gapi.client.drive.files.get({ fileId: file.id, alt: 'media' });
+      return response.result as OplogSnapshot;
+    } catch (error) {
+      const fileName = `'${file.name}' (file ID: ${file.id})`;
+      log.error(`Error on attempt to download '${fileName}:`, error);
+      throw new FileDownloadError(fileName, error);
+    }
+  }
+
+  /**
+   * Saves an oplog snapshot to the plugin's Google Drive folder. There's only ever one snapshot file; any existing
+   * snapshot is overwritten.
+   */
+  public async saveRemoteSnapshot(snapshot: OplogSnapshot): Promise<void> {
+    debug && log.debug('Attempting to save oplog snapshot to Google Drive.');
+
+    // WARNING: Google Drive allows multiple files to exist with the same name. Always check to see if a file exists
+    // before uploading it so that it can be overwritten.
+    const { files } = await this.getFileListPage({
+      type: 'files',
+      exactName: FILENAME_PART.snapshot,
+      limitToPluginFolder: true,
+    });
+
+    await this.saveFile({
+      fileId: files.length > 0 ? files[0].id : undefined,
+      fileName: FILENAME_PART.snapshot,
+      fileData: snapshot,
+    });
+  }
+
   /**
    * Convenience function for saving some object to Google Drive.
    */
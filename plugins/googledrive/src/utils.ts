@@ -22,6 +22,7 @@ export const FILENAME_PART = {
   clientPrefix: 'clientId:',
   clientInfoExt: '.clientinfo.json',
   messageExt: '.oplogmsg.json',
+  snapshot: 'IDBSideSync.oplogsnapshot.json',
 };
 
 export function oplogEntryToFileName(params: {
@@ -133,8 +133,214 @@ interface OpLogEntry {
   hlcTime: string;
   store: string;
   objectKey: number | string | Date | Array<number | string | Date>;
-  prop: string;
+  prop: string | string[];
   value: unknown;
+  operation?: OpLogEntryOperation;
+  changeSetId?: string;
+  changeSetSize?: number;
+  schemaVersion?: number;
+  migratedFrom?: { store: string; prop: string | string[] };
+  prevHash?: string | null;
+  hash?: string;
+}
+
+/**
+ * Note on the `schemaVersion` property of an OpLogEntry: this is the version of the app's IndexedDB database (i.e., the
+ * version of its schema) that the entry refers to. If stores or props are renamed in a later version, entries with an
+ * older `schemaVersion` are translated before they're applied (see `registerMigration()`). A translated entry keeps its
+ * original `store` and `prop` in `migratedFrom`.
+ */
+
+/**
+ * Note on the `hash` and `prevHash` properties of an OpLogEntry: each client's entries form a "hash chain". When an
+ * entry is recorded, its `prevHash` is set to the `hash` of the entry the same client recorded before it (or `null` if
+ * it's the client's first entry), and its `hash` is computed from its contents (see `hashOplogEntry()`). Since each
+ * hash covers the previous one, an entry that was modified, removed, or moved after it was recorded breaks the chain
+ * (see `verifyOplog()`). Only the synced version of an entry is recorded and hashed (see `InitOptions`); if the sync
+ * options change, the entries that haven't been uploaded yet are updated and re-linked before they are (see
+ * `applySyncScope()`). Note that the hashes aren't cryptographic and aren't signed; they make accidental corruption
+ * and careless tampering evident, but they don't prevent someone from rewriting a chain from scratch.
+ */
+
+/**
+ * Note on the `changeSetId` and `changeSetSize` properties of an OpLogEntry: all of the entries recorded in the same
+ * IndexedDB transaction (e.g., one for each prop of an object passed to `put()`) are part of the same "change set". They
+ * all have the same `changeSetId` (the `hlcTime` of the first entry recorded in the transaction), and the entry that was
+ * recorded last also has a `changeSetSize`: the number of entries in the change set. This allows other clients to apply
+ * a logical change as a whole, even if its entries are received separately (see `applyOplogEntries()`). Entries without
+ * a `changeSetId` (e.g., those recorded by older versions of IDBSideSync) are applied on their own.
+ */
+
+/**
+ * Note on the `prop` property of an OpLogEntry: by default, one oplog entry is recorded for each _top-level_ property of
+ * an object (e.g., `prop: 'theme'`, `value: { color: 'red', font: 'Arial' }`). If an object store is proxied with the
+ * `flattenNestedObjects` option, nested plain objects are "flattened" and one oplog entry is recorded for each leaf
+ * value, using an array of property names as the `prop` (e.g., `prop: ['theme', 'color']`, `value: 'red'`). This allows
+ * concurrent changes to _different_ nested properties to be merged instead of one overwriting the other.
+ *
+ * Path-based props always have 2+ elements (i.e., a top-level property is always identified by a string). When entries
+ * for a path and one of its "ancestors" (e.g., `'theme'` and `['theme', 'color']`) conflict, the most recent one wins:
+ * setting `theme` replaces everything under it that was set before, but not anything that was set afterwards.
+ *
+ * By default (i.e., when an OpLogEntry doesn't have an `operation` property), an oplog entry describes setting `prop`
+ * to `value` on the object identified by `store` + `objectKey`. Entries that describe any other kind of mutation must
+ * specify one of the following operations:
+ *
+ *   - `delete`: a "tombstone" indicating that the object identified by `store` + `objectKey` was deleted. Tombstones
+ *     always have `prop: ''` and `value: null`. Any of the object's props that were set BEFORE the tombstone's `hlcTime`
+ *     are considered deleted; props that were set afterwards "survive" (i.e., the object can only be resurrected by a
+ *     causally-newer oplog entry).
+ *   - `clear`: indicates that ALL objects in `store` were deleted. Just like a tombstone, this only affects props that
+ *     were set BEFORE the entry's `hlcTime`. Since the entry doesn't apply to a specific object, it always has
+ *     `objectKey: []` (a key that can't be used by an actual object), `prop: ''`, and `value: null`.
+ *   - `increment`: indicates that the (numeric) value of `prop` was incremented by `value`, which can be negative (i.e.,
+ *     a decrement). Unlike entries that set a prop, increments from different clients don't conflict: the value of the
+ *     prop is the value it was most recently set to plus ALL of the increments made after that (i.e., the prop is a
+ *     counter that converges on every client). If the prop hasn't been set to a number, increments are added to 0.
+ *   - `addElement`: indicates that `value` was added to the (array) value of `prop`. The entry's `hlcTime` is a unique
+ *     "tag" for that addition. Together with `removeElement`, this makes the prop an "observed-remove set": additions
+ *     and removals from different clients don't conflict, and an element is only removed if the client that removed it
+ *     had "observed" the addition. If the same element is added on one client while it's removed on another, it's kept.
+ *   - `removeElement`: indicates that an element was removed from the (array) value of `prop`. The entry's `value` is an
+ *     `OpLogElementRemoval`: the element plus the tags of the additions that were removed. An element that was part of
+ *     an array that the prop was SET to is tagged with the `hlcTime` of the entry that set it.
+ *   - `insertText`: indicates that some text was inserted into the (string) value of `prop`. The entry's `value` is an
+ *     `OpLogTextInsertion`. Each inserted character gets a unique ID: the entry's `hlcTime` plus the character's index
+ *     in the inserted text (e.g., `'2021-01-24T13:23:14.203Z_0000_ab12cd34ef56ab78:2'`). A string that the prop was SET
+ *     to is treated as if it was inserted at the start of an empty text by the entry that set it. Together with
+ *     `deleteText`, this makes the prop a sequence CRDT: edits made to different parts of the text on different clients
+ *     are all preserved (see `text.toChars()` for details).
+ *   - `deleteText`: indicates that some characters were deleted from the (string) value of `prop`. The entry's `value`
+ *     is an array of the deleted characters' IDs.
+ */
+type OpLogEntryOperation =
+  | 'delete'
+  | 'clear'
+  | 'increment'
+  | 'addElement'
+  | 'removeElement'
+  | 'insertText'
+  | 'deleteText';
+
+/**
+ * The `value` of a `removeElement` oplog entry (see OpLogEntryOperation).
+ */
+interface OpLogElementRemoval {
+  element: unknown;
+  tags: string[];
+}
+
+/**
+ * The `value` of an `insertText` oplog entry (see OpLogEntryOperation): the inserted text and the ID of the character
+ * it was inserted after (`null` if it was inserted at the start of the text).
+ */
+interface OpLogTextInsertion {
+  after: string | null;
+  text: string;
+}
+
+/**
+ * Describes a change to some text: `deleteCount` characters are deleted, starting at `index`, and `insert` is inserted
+ * in their place. Just like `OpLogTextInsertion`, indexes are in characters (i.e., Unicode code points).
+ */
+interface TextSplice {
+  index: number;
+  deleteCount: number;
+  insert: string;
+}
+
+/**
+ * A ternary (base-3) Merkle tree of oplog entry hlcTimes, where each node's path is the base-3 encoded number of minutes
+ * since 1970 for the entries "under" it (e.g., `tree['1']['2']['0']`) and each node's `hash` is made from the hashes of
+ * all those entries' hlcTimes. Two trees have the same root `hash` only if they were built from the same entries. For
+ * more info see the "The merkle tree" section in NOTES.md.
+ */
+interface MerkleTree {
+  hash: number;
+  '0'?: MerkleTree;
+  '1'?: MerkleTree;
+  '2'?: MerkleTree;
+}
+
+/**
+ * A "checkpoint" of the oplog that can be used to bootstrap a new client without having to download and apply every
+ * historical oplog entry. `entries` only includes the most recent entry for each store + objectKey + prop (plus the
+ * most recent "delete" entry for each object). `clientWatermarks` maps the ID of every client whose entries are
+ * reflected by the snapshot to the `hlcTime` of that client's most recent entry; after applying the snapshot, only the
+ * entries recorded after those times need to be downloaded.
+ */
+interface OplogSnapshot {
+  clientId: string;
+  entries: OpLogEntry[];
+  clientWatermarks: Record<string, string>;
+}
+
+/**
+ * The outcome of attempting to apply an oplog entry (e.g., one received from another client):
+ *
+ *   - `applied`: the entry was applied and added to the oplog.
+ *   - `ignored`: the entry was stale (e.g., a more recent entry exists for the same store + objectKey + prop, or the
+ *     object was deleted more recently), so it was NOT applied or added to the oplog.
+ *   - `rejected`: the entry was NOT applied or added to the oplog because it isn't a valid OpLogEntry object, because
+ *     it failed validation (i.e., the validator registered for its store with `registerEntryValidator()` rejected it,
+ *     or rejected another entry of its change set), or because of an error (e.g., the resulting object couldn't be
+ *     saved).
+ *   - `pending`: the entry is part of a change set (see OpLogEntry) whose other entries haven't all been received yet,
+ *     so it was NOT applied yet. It's kept until the rest of the change set is received (e.g., by a later sync), and
+ *     then applied along with them; the result for the entry that completes the change set reflects that. Entries that
+ *     were recorded by a newer version of the app (see `schemaVersion`) are pending too, until `init()` is called
+ *     after this client's database has been upgraded to their version.
+ *
+ * `reason` describes why an entry was ignored, rejected, or is pending; for an entry that failed validation, it's the
+ * reason given by the validator (see `EntryValidator`). These results are returned by `applyOplogEntries()` and
+ * `applyOplogEntry()`, and, for downloaded entries, in the `downloaded` results of `sync()` (see PluginSyncResult).
+ */
+interface ApplyOplogEntryResult {
+  entry: OpLogEntry;
+  status: 'applied' | 'ignored' | 'rejected' | 'pending';
+  reason?: string;
+}
+
+/**
+ * Describes a problem with a client's hash chain that was found by `verifyOplog()` or while syncing:
+ *
+ *   - `modified`: the entry's contents don't match its `hash` (i.e., it was changed after it was recorded).
+ *   - `gap`: the entry recorded before this one (i.e., the one its `prevHash` refers to) is missing.
+ *   - `reordered`: the entry's `prevHash` refers to a different entry than the one that precedes it.
+ */
+interface OplogIntegrityIssue {
+  type: 'modified' | 'gap' | 'reordered';
+  entry: OpLogEntry;
+}
+
+/**
+ * Describes a change to an object that was committed to the database, either because the app changed it via a proxied
+ * store (`source: 'local'`) or because an oplog entry from another client was applied (`source: 'remote'`). `props` are
+ * the `prop` values of the oplog entries that changed the object (e.g., `''` if it was deleted). If a store was cleared,
+ * `objectKey` is an empty array (i.e., every object in the store might have changed).
+ */
+interface ObjectChange {
+  store: string;
+  objectKey: OpLogEntry['objectKey'];
+  props: OpLogEntry['prop'][];
+  source: 'local' | 'remote';
+}
+
+/**
+ * The result of syncing with a single plugin. `downloaded` has a result for each oplog entry that was downloaded from
+ * other clients, and `integrityIssues` has the problems found in their hash chains (see `OplogIntegrityIssue`). If the
+ * sync failed part way through, `error` is set (and the other properties reflect what happened before the failure).
+ */
+interface PluginSyncResult {
+  pluginId: string;
+  numUploaded: number;
+  downloaded: ApplyOplogEntryResult[];
+  integrityIssues: OplogIntegrityIssue[];
+  error?: Error;
+}
+
+interface SyncResult {
+  plugins: PluginSyncResult[];
 }
 
 interface UserProfile {
@@ -185,6 +391,9 @@ interface SyncPlugin {
     clientId: string,
     options?: { overwriteIfExists?: boolean }
   ): Promise<void>;
+  // Optional; plugins that implement these can be used to bootstrap new clients from a snapshot.
+  getRemoteSnapshot?(): Promise<OplogSnapshot | null>;
+  saveRemoteSnapshot?(snapshot: OplogSnapshot): Promise<void>;
 }
 
 interface SyncProfile {